@@ -0,0 +1,273 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ReviewConfig, ReviewResult } from './types';
+import {
+	buildReviewRequestPrompts,
+	confirmReviewEstimate,
+	estimateReview,
+	needsChunkedReview,
+	recordReviewResult,
+	reviewService,
+	reviewWithLLM,
+	reviewWithLLMInChunks,
+	sendPromptToLLM
+} from './reviewService';
+import { getConfiguration, getConfigurationWithFavoritePrompt } from './configService';
+import { generateNativeGitDiff } from './diffService';
+import { getGitInformation, getReviewContext, getSelectedRepositoryPath } from './gitService';
+import { estimateTokens, splitDiffByFile } from './chunkService';
+import { FavoritePromptsService } from './favoritePromptsService';
+import { getProvider } from './providers/providerRegistry';
+
+// @difflens chat participant: reviews, diff previews and explanations in the Chat view,
+// and follow-up questions on the last review
+
+const PARTICIPANT_ID = 'diff-lens.difflens';
+
+// Register the chat participant and the command that opens a discussion in the Chat view
+export function registerChatParticipant(context: vscode.ExtensionContext): vscode.Disposable {
+	const participant = vscode.chat.createChatParticipant(PARTICIPANT_ID, handleChatRequest);
+	participant.iconPath = vscode.Uri.joinPath(context.extensionUri, 'resources', 'icon.svg');
+
+	return vscode.Disposable.from(
+		participant,
+		vscode.commands.registerCommand('diff-lens.discussReview', () => discussReview())
+	);
+}
+
+// Open the Chat view with the discussion command filled in
+async function discussReview(): Promise<void> {
+	if (!reviewService.getLastReviewResult()) {
+		vscode.window.showWarningMessage('まだレビュー結果がありません。先にコードレビューを実行してください。');
+		return;
+	}
+	await vscode.commands.executeCommand('workbench.action.chat.open', { query: '@difflens /discuss ', isPartialQuery: true });
+}
+
+async function handleChatRequest(request: vscode.ChatRequest, context: vscode.ChatContext, stream: vscode.ChatResponseStream, token: vscode.CancellationToken): Promise<vscode.ChatResult> {
+	try {
+		switch (request.command) {
+			case 'review':
+				return await reviewInChat(request, stream, token);
+			case 'preview':
+				return await previewInChat(request, stream, token);
+			case 'explain':
+				return await explainInChat(request, stream, token);
+			default:
+				return await discussLastReview(request, context, stream, token);
+		}
+	} catch (error) {
+		if (error instanceof vscode.CancellationError) {
+			return {};
+		}
+		return { errorDetails: { message: `${error}` } };
+	}
+}
+
+// Root path of the repository selected in the sidebar or with "DiffLens: Select Repository"
+async function getRepositoryPath(): Promise<string> {
+	const repositoryPath = await getSelectedRepositoryPath();
+	if (!repositoryPath) {
+		throw new Error('No git repository found. Please open a folder containing a git repository.');
+	}
+	return repositoryPath;
+}
+
+// Parse "/review [ref] [favorite prompt name]"
+// The whole text is tried as a prompt name first, so names containing spaces need no quoting
+function parseReviewArguments(text: string, isFavoritePromptName: (name: string) => boolean): { ref: string | null; promptName?: string } {
+	const trimmed = text.trim();
+	if (!trimmed) {
+		return { ref: null };
+	}
+	if (isFavoritePromptName(trimmed)) {
+		return { ref: null, promptName: trimmed };
+	}
+
+	const [ref, ...rest] = trimmed.split(/\s+/);
+	return { ref, promptName: rest.length > 0 ? rest.join(' ') : undefined };
+}
+
+// Review a commit range the same way the sidebar does, streaming the review into chat
+async function reviewInChat(request: vscode.ChatRequest, stream: vscode.ChatResponseStream, token: vscode.CancellationToken): Promise<vscode.ChatResult> {
+	const repositoryPath = await getRepositoryPath();
+	const { ref, promptName } = parseReviewArguments(request.prompt, name => !!FavoritePromptsService.findFavoritePromptByName(name));
+	const config = getConfigurationWithFavoritePrompt(promptName);
+
+	stream.progress('Getting git diff...');
+	const diffResult = await generateNativeGitDiff(repositoryPath, ref, config.contextLines, config.excludeDeletes, config.fileExtensions, config, token);
+	const diff = diffResult.diff;
+
+	const reviewContext = config.includeCommitContext ? await getReviewContext(repositoryPath, ref) : undefined;
+
+	// Ask before sending requests larger than the configured threshold
+	const prompts = buildReviewRequestPrompts(diff, config, reviewContext);
+	if (config.confirmTokenThreshold > 0) {
+		const estimate = await estimateReview(prompts, config, token);
+		if (estimate.inputTokens > config.confirmTokenThreshold && !(await confirmReviewEstimate(estimate))) {
+			stream.markdown('レビューをキャンセルしました。');
+			return {};
+		}
+	}
+
+	stream.progress(`Reviewing code with ${getProvider(config.llmProvider)?.displayName || config.llmProvider}...`);
+	let reviewResult: ReviewResult;
+	if (needsChunkedReview(diff, config)) {
+		reviewResult = await reviewWithLLMInChunks(diff, config, (completed, total) => {
+			stream.progress(completed < total
+				? `Reviewing part ${completed + 1} of ${total}...`
+				: `Merging findings from ${total} parts...`);
+		}, fragment => stream.markdown(fragment), token, reviewContext);
+	} else {
+		reviewResult = await reviewWithLLM(diff, config, fragment => stream.markdown(fragment), token, reviewContext);
+	}
+
+	const gitInfo = await getGitInformation(repositoryPath, ref || undefined);
+	recordReviewResult(reviewResult, gitInfo, diff, config, undefined, prompts);
+
+	stream.markdown(`\n\n---\n\n*Model Used: ${reviewResult.modelName}*`);
+	stream.button({ command: 'diff-lens.exportReview', title: 'Export Review Results', arguments: [reviewResult, gitInfo] });
+	stream.button({ command: 'diff-lens.discussReview', title: 'Discuss This Review' });
+	return {};
+}
+
+// Show the diff that "/review" would send, without calling the model
+async function previewInChat(request: vscode.ChatRequest, stream: vscode.ChatResponseStream, token: vscode.CancellationToken): Promise<vscode.ChatResult> {
+	const repositoryPath = await getRepositoryPath();
+	const ref = request.prompt.trim().split(/\s+/)[0] || null;
+	const config = getConfiguration();
+
+	stream.progress('Getting git diff...');
+	const diffResult = await generateNativeGitDiff(repositoryPath, ref, config.contextLines, config.excludeDeletes, config.fileExtensions, config, token);
+
+	const excluded = diffResult.exclusionSummary?.summary.totalFiles || 0;
+	stream.markdown(`**Comparison:** ${ref ? `HEAD vs ${ref}` : 'latest commit'}  \n` +
+		`**Context Lines:** ${config.contextLines}` +
+		(excluded > 0 ? `  \n**Excluded Files:** ${excluded} files (${diffResult.exclusionSummary!.summary.readableTotalSize})` : '') +
+		`\n\n\`\`\`diff\n${diffResult.diff}\n\`\`\`\n`);
+	return {};
+}
+
+// Build the prompt asking the model to explain the changes to one file
+function buildExplainPrompt(file: string, fileDiff: string): string {
+	return `Explain the following changes to ${file} to a developer reading them for the first time.
+Describe what changed, why it was likely changed, and anything a reviewer should pay attention to.
+
+\`\`\`diff
+${fileDiff}
+\`\`\``;
+}
+
+// Explain the changes to one file: "/explain <file> [ref]", or a file attached as a chat reference
+async function explainInChat(request: vscode.ChatRequest, stream: vscode.ChatResponseStream, token: vscode.CancellationToken): Promise<vscode.ChatResult> {
+	const repositoryPath = await getRepositoryPath();
+	const [fileArgument, refArgument] = request.prompt.trim().split(/\s+/);
+	const reference = request.references.find(ref => ref.value instanceof vscode.Uri);
+	const file = (fileArgument || (reference ? path.relative(repositoryPath, (reference.value as vscode.Uri).fsPath).split(path.sep).join('/') : '')).replace(/^\.\//, '');
+	if (!file) {
+		stream.markdown('説明するファイルを指定してください。例: `@difflens /explain src/foo.ts`');
+		return {};
+	}
+	const config = getConfigurationWithFavoritePrompt();
+
+	stream.progress('Getting git diff...');
+	const diffResult = await generateNativeGitDiff(repositoryPath, refArgument || null, config.contextLines, config.excludeDeletes, config.fileExtensions, config, token);
+
+	const fileDiffs = splitDiffByFile(diffResult.diff);
+	const fileDiff = fileDiffs.find(section => {
+		const header = section.split('\n')[0];
+		return header.endsWith(` b/${file}`) || header.endsWith(`/${file}`);
+	});
+	if (!fileDiff) {
+		const changedFiles = fileDiffs.map(section => section.split('\n')[0].replace(/^diff --git a\/.* b\//, ''));
+		stream.markdown(`\`${file}\` に変更はありません。変更されたファイル:\n\n${changedFiles.map(changed => `- \`${changed}\``).join('\n')}`);
+		return {};
+	}
+
+	stream.progress(`Explaining ${file}...`);
+	await sendPromptToLLM(buildExplainPrompt(file, fileDiff), config, token, fragment => stream.markdown(fragment));
+	return {};
+}
+
+// Text of a previous chat turn
+function turnText(turn: vscode.ChatRequestTurn | vscode.ChatResponseTurn): string {
+	if (turn instanceof vscode.ChatRequestTurn) {
+		return turn.prompt;
+	}
+	return turn.response
+		.map(part => part instanceof vscode.ChatResponseMarkdownPart ? part.value.value : '')
+		.join('');
+}
+
+// The prompts the review was requested with, as many as fit in the chunk token budget
+// so that a discussion of a chunked review fits the model's context like each of its requests did
+function formatReviewRequest(prompts: string[], config: ReviewConfig): string {
+	const included: string[] = [];
+	let tokens = 0;
+	for (const prompt of prompts) {
+		const promptTokens = estimateTokens(prompt);
+		if (tokens + promptTokens > config.chunkTokenBudget) {
+			// A review that was not chunked can have a single prompt over the budget; keep its beginning,
+			// at the four characters per token that estimateTokens counts
+			if (included.length === 0) {
+				included.push(prompt.substring(0, config.chunkTokenBudget * 4));
+			}
+			break;
+		}
+		included.push(prompt);
+		tokens += promptTokens;
+	}
+
+	const request = included.join('\n\n---\n\n');
+	return included.length < prompts.length || request.length < prompts[0].length
+		? `${request}\n\n(The rest of the review request is omitted.)`
+		: request;
+}
+
+// Build the discussion prompt: the original review request and reply, then the conversation so far
+function buildDiscussionPrompt(reviewResult: ReviewResult, config: ReviewConfig, prompts: string[], history: string[], question: string): string {
+	return `You are discussing a code review you wrote earlier with the developer whose changes you reviewed.
+
+The review was requested with the following ${prompts.length > 1 ? `${prompts.length} prompts, one per part of the changes` : 'prompt'}:
+
+${formatReviewRequest(prompts, config)}
+
+Your review:
+
+${reviewResult.review}
+${history.length > 0 ? `\nDiscussion so far:\n\n${history.join('\n\n')}\n` : ''}
+Developer's question: ${question}
+
+Answer the question, referring to the diff and your review. When asked for a fix, show the changed code.`;
+}
+
+// Answer a follow-up question with the provider and model that produced the last review
+async function discussLastReview(request: vscode.ChatRequest, context: vscode.ChatContext, stream: vscode.ChatResponseStream, token: vscode.CancellationToken): Promise<vscode.ChatResult> {
+	const reviewResult = reviewService.getLastReviewResult();
+	const config = reviewService.getLastReviewConfig();
+	if (!reviewResult || !config) {
+		stream.markdown('まだレビュー結果がありません。先にコードレビューを実行してください。');
+		stream.button({ command: 'diff-lens.reviewCode', title: 'Review Code with AI' });
+		return {};
+	}
+
+	const question = request.prompt.trim();
+	if (!question) {
+		stream.markdown(`**${reviewResult.modelName}** によるレビューについて質問してください。例: 「42行目はなぜ危険ですか？」「修正例を見せてください」`);
+		return {};
+	}
+
+	// Earlier turns of this discussion
+	const history = context.history
+		.filter(turn => turn.participant === PARTICIPANT_ID && (turn.command === 'discuss' || !turn.command))
+		.map(turn => `${turn instanceof vscode.ChatRequestTurn ? 'Developer' : 'You'}: ${turnText(turn)}`);
+
+	stream.progress(`Asking ${reviewResult.modelName}...`);
+	await sendPromptToLLM(
+		buildDiscussionPrompt(reviewResult, config, reviewService.getLastReviewPrompts(), history, question),
+		config,
+		token,
+		fragment => stream.markdown(fragment)
+	);
+	return {};
+}
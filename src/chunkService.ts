@@ -0,0 +1,90 @@
+// Splitting of large diffs into token-budgeted chunks for map-reduce reviews
+
+// Rough token estimate (about 4 characters per token) used to size chunks
+export function estimateTokens(text: string): number {
+	return Math.ceil(text.length / 4);
+}
+
+// Split a unified diff into one section per "diff --git" file header
+export function splitDiffByFile(diff: string): string[] {
+	const files: string[] = [];
+	let current: string[] = [];
+
+	for (const line of diff.split('\n')) {
+		if (line.startsWith('diff --git ') && current.length > 0) {
+			files.push(current.join('\n').trim());
+			current = [];
+		}
+		current.push(line);
+	}
+	if (current.join('').trim()) {
+		files.push(current.join('\n').trim());
+	}
+
+	return files;
+}
+
+// Split one file section into its header lines and its "@@" hunks
+function splitFileIntoHunks(fileDiff: string): { header: string; hunks: string[] } {
+	const headerLines: string[] = [];
+	const hunks: string[][] = [];
+
+	for (const line of fileDiff.split('\n')) {
+		if (line.startsWith('@@')) {
+			hunks.push([line]);
+		} else if (hunks.length > 0) {
+			hunks[hunks.length - 1].push(line);
+		} else {
+			headerLines.push(line);
+		}
+	}
+
+	return {
+		header: headerLines.join('\n'),
+		hunks: hunks.map(hunk => hunk.join('\n'))
+	};
+}
+
+// Pack sections in order into groups whose estimated size stays within the budget
+// A section larger than the budget on its own becomes a group by itself
+function packSections(sections: string[], tokenBudget: number, separator: string, prefix: string = ''): string[] {
+	const groups: string[] = [];
+	let current = '';
+
+	for (const section of sections) {
+		const candidate = current ? `${current}${separator}${section}` : `${prefix}${section}`;
+		if (current && estimateTokens(candidate) > tokenBudget) {
+			groups.push(current);
+			current = `${prefix}${section}`;
+		} else {
+			current = candidate;
+		}
+	}
+	if (current) {
+		groups.push(current);
+	}
+
+	return groups;
+}
+
+// Split a diff into chunks of whole files within the token budget
+// Files that exceed the budget are split between hunks, repeating the file header in every chunk
+export function splitDiffIntoChunks(diff: string, tokenBudget: number): string[] {
+	const units: string[] = [];
+
+	for (const fileDiff of splitDiffByFile(diff)) {
+		if (estimateTokens(fileDiff) <= tokenBudget) {
+			units.push(fileDiff);
+			continue;
+		}
+
+		const { header, hunks } = splitFileIntoHunks(fileDiff);
+		if (hunks.length <= 1) {
+			units.push(fileDiff);
+			continue;
+		}
+		units.push(...packSections(hunks, tokenBudget, '\n', `${header}\n`));
+	}
+
+	return packSections(units, tokenBudget, '\n\n');
+}
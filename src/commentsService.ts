@@ -0,0 +1,181 @@
+import * as vscode from 'vscode';
+import { createHash } from 'crypto';
+import { ReviewFinding } from './types';
+import { resolveFindingUri } from './diagnosticsService';
+import { getConfiguration } from './configService';
+import { sendPromptToLLM } from './reviewService';
+
+// Comment threads for structured review findings, anchored on the reported lines
+
+type FindingState = 'resolved' | 'dismissed';
+
+const CONTROLLER_ID = 'difflens-review';
+const FINDING_STATES_KEY = 'diffLens.findingStates';
+
+let commentController: vscode.CommentController | undefined;
+let workspaceState: vscode.Memento | undefined;
+const threadFindings = new Map<vscode.CommentThread, ReviewFinding>();
+
+const DIFFLENS_AUTHOR: vscode.CommentAuthorInformation = { name: 'DiffLens' };
+
+// Identify a finding across reviews; line numbers are left out because they shift as the file changes
+// The description tells apart findings that share a generic title, with case, punctuation and spacing ignored
+function findingKey(finding: ReviewFinding): string {
+	const description = finding.description.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+	const descriptionHash = createHash('sha1').update(description).digest('hex').substring(0, 12);
+	return `${finding.file}|${finding.category}|${finding.title}|${descriptionHash}`;
+}
+
+function getFindingStates(): Record<string, FindingState> {
+	return workspaceState?.get<Record<string, FindingState>>(FINDING_STATES_KEY, {}) || {};
+}
+
+async function setFindingState(finding: ReviewFinding, state: FindingState): Promise<void> {
+	const states = getFindingStates();
+	states[findingKey(finding)] = state;
+	await workspaceState?.update(FINDING_STATES_KEY, states);
+}
+
+function createComment(body: string | vscode.MarkdownString, author: vscode.CommentAuthorInformation): vscode.Comment {
+	return {
+		body,
+		mode: vscode.CommentMode.Preview,
+		author
+	};
+}
+
+function formatFindingComment(finding: ReviewFinding): vscode.MarkdownString {
+	return new vscode.MarkdownString(
+		`**${finding.title}** (${finding.severity}, ${finding.category})\n\n${finding.description}\n\n**Suggestion:** ${finding.suggestion}`
+	);
+}
+
+// Create the comment controller and its thread commands; resolution state is kept per workspace
+export function createReviewComments(context: vscode.ExtensionContext): vscode.Disposable {
+	workspaceState = context.workspaceState;
+	commentController = vscode.comments.createCommentController(CONTROLLER_ID, 'DiffLens Review');
+
+	return vscode.Disposable.from(
+		commentController,
+		vscode.commands.registerCommand('diff-lens.resolveFinding', (thread: vscode.CommentThread) => resolveFinding(thread)),
+		vscode.commands.registerCommand('diff-lens.dismissFinding', (thread: vscode.CommentThread) => dismissFinding(thread)),
+		vscode.commands.registerCommand('diff-lens.askFindingFollowUp', (reply: vscode.CommentReply) => askFollowUp(reply))
+	);
+}
+
+// Replace the comment threads with those of the latest review
+// Findings dismissed earlier in this workspace are skipped, resolved ones start collapsed
+export function showReviewComments(findings: ReviewFinding[], repositoryPath?: string): void {
+	if (!commentController) {
+		return;
+	}
+
+	for (const thread of threadFindings.keys()) {
+		thread.dispose();
+	}
+	threadFindings.clear();
+
+	const states = getFindingStates();
+	for (const finding of findings) {
+		const state = states[findingKey(finding)];
+		const uri = resolveFindingUri(finding.file, repositoryPath);
+		if (state === 'dismissed' || !uri) {
+			continue;
+		}
+
+		const line = Math.max(finding.line - 1, 0);
+		const thread = commentController.createCommentThread(uri, new vscode.Range(line, 0, line, 0), [
+			createComment(formatFindingComment(finding), DIFFLENS_AUTHOR)
+		]);
+		thread.label = `DiffLens: ${finding.title}`;
+		thread.canReply = true;
+		if (state === 'resolved') {
+			thread.state = vscode.CommentThreadState.Resolved;
+			thread.contextValue = 'difflensFindingResolved';
+			thread.collapsibleState = vscode.CommentThreadCollapsibleState.Collapsed;
+		} else {
+			thread.state = vscode.CommentThreadState.Unresolved;
+			thread.contextValue = 'difflensFinding';
+			thread.collapsibleState = vscode.CommentThreadCollapsibleState.Expanded;
+		}
+		threadFindings.set(thread, finding);
+	}
+}
+
+async function resolveFinding(thread: vscode.CommentThread): Promise<void> {
+	const finding = threadFindings.get(thread);
+	if (!finding) {
+		return;
+	}
+
+	thread.state = vscode.CommentThreadState.Resolved;
+	thread.contextValue = 'difflensFindingResolved';
+	thread.collapsibleState = vscode.CommentThreadCollapsibleState.Collapsed;
+	await setFindingState(finding, 'resolved');
+}
+
+async function dismissFinding(thread: vscode.CommentThread): Promise<void> {
+	const finding = threadFindings.get(thread);
+	if (!finding) {
+		return;
+	}
+
+	threadFindings.delete(thread);
+	thread.dispose();
+	await setFindingState(finding, 'dismissed');
+}
+
+// Build the follow-up prompt with the finding and the code around it
+function buildFollowUpPrompt(finding: ReviewFinding, code: string, previousComments: string[], question: string): string {
+	return `You reported the following finding in a code review:
+
+File: ${finding.file}${finding.line > 0 ? `:${finding.line}` : ''}
+Severity: ${finding.severity}
+Category: ${finding.category}
+Title: ${finding.title}
+Description: ${finding.description}
+Suggestion: ${finding.suggestion}
+
+Current code around the finding:
+\`\`\`
+${code}
+\`\`\`
+${previousComments.length > 0 ? `\nDiscussion so far:\n${previousComments.join('\n\n')}\n` : ''}
+Developer's question: ${question}
+
+Answer the question concisely.`;
+}
+
+async function askFollowUp(reply: vscode.CommentReply): Promise<void> {
+	const thread = reply.thread;
+	const finding = threadFindings.get(thread);
+	const question = reply.text.trim();
+	if (!finding || !question) {
+		return;
+	}
+
+	const previousComments = thread.comments.slice(1).map(comment =>
+		`${comment.author.name}: ${typeof comment.body === 'string' ? comment.body : comment.body.value}`
+	);
+	thread.comments = [...thread.comments, createComment(question, { name: 'You' })];
+
+	try {
+		const document = await vscode.workspace.openTextDocument(thread.uri);
+		const startLine = Math.max(thread.range!.start.line - 10, 0);
+		const endLine = Math.min(thread.range!.start.line + 10, document.lineCount - 1);
+		const code = document.getText(new vscode.Range(startLine, 0, endLine, document.lineAt(endLine).text.length));
+
+		const response = await vscode.window.withProgress({
+			location: vscode.ProgressLocation.Notification,
+			title: 'DiffLens: Asking follow-up question...',
+			cancellable: true
+		}, (progress, token) => sendPromptToLLM(buildFollowUpPrompt(finding, code, previousComments, question), getConfiguration(), token));
+
+		thread.comments = [...thread.comments, createComment(new vscode.MarkdownString(response.text), DIFFLENS_AUTHOR)];
+	} catch (error) {
+		if (error instanceof vscode.CancellationError) {
+			return;
+		}
+		vscode.window.showErrorMessage(`Failed to get follow-up answer: ${error}`);
+	}
+}
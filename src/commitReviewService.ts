@@ -0,0 +1,118 @@
+import * as vscode from 'vscode';
+import { Commit, CommitReviewItem, ReviewConfig, ReviewContext, ReviewResult } from './types';
+import { generateNativeGitDiff } from './diffService';
+import { extractIssueKeys, getCommitsInRange, getRepositoryByPath, resolveCommitRange } from './gitService';
+import { buildReviewRequestPrompts, needsChunkedReview, ReviewDocumentWriter, reviewWithLLM, reviewWithLLMInChunks, sumUsage } from './reviewService';
+import { logGitOperation } from './logger';
+
+// Commit-by-commit review: each commit of a range is reviewed separately with its message as context,
+// so problems hidden by a squashed diff (a bug added in one commit and fixed in a later one) stay visible
+
+// Heading of a commit's section in the report
+function formatCommitHeading(commit: Commit, index: number): string {
+	return `${index + 1}. ${commit.hash.substring(0, 8)} ${commit.message.split('\n')[0]}`;
+}
+
+// Get the commits between the comparison's base and target with the diff and prompt context of each,
+// so the requests can be estimated before any of them is sent
+export async function prepareCommitByCommitReview(
+	repositoryPath: string,
+	compareToCommit: string | null,
+	config: ReviewConfig,
+	token?: vscode.CancellationToken
+): Promise<CommitReviewItem[]> {
+	const repository = await getRepositoryByPath(repositoryPath);
+	if (!repository) {
+		throw new Error('Git repository not found');
+	}
+
+	const { fromCommit, toCommit } = await resolveCommitRange(repository, compareToCommit);
+	const commits = await getCommitsInRange(repository, fromCommit, toCommit);
+	if (commits.length === 0) {
+		throw new Error(`No commits found between ${fromCommit.substring(0, 8)} and ${toCommit}`);
+	}
+
+	const items: CommitReviewItem[] = [];
+	for (const commit of commits) {
+		// With commit context enabled, the branch and the issues linked by this commit are described too
+		const context: ReviewContext = config.includeCommitContext
+			? { commits: [commit], branchName: repository.state.HEAD?.name, issueKeys: extractIssueKeys([commit.message]) }
+			: { commits: [commit] };
+		try {
+			const { diff } = await generateNativeGitDiff(repositoryPath, `${commit.hash}~1..${commit.hash}`, config.contextLines, config.excludeDeletes, config.fileExtensions, config, token);
+			items.push({ commit, diff, context });
+		} catch (error) {
+			if (error instanceof vscode.CancellationError) {
+				throw error;
+			}
+			// e.g. the root commit, or a commit whose files are all excluded by the filters
+			logGitOperation(`prepareCommitByCommitReview: Skipping commit ${commit.hash.substring(0, 8)}`, error);
+			items.push({ commit, skipReason: `${error}`, context });
+		}
+	}
+	return items;
+}
+
+// Prompts sent by a commit-by-commit review, for estimating its size
+export function buildCommitByCommitPrompts(items: CommitReviewItem[], config: ReviewConfig): string[] {
+	return items.flatMap(item => item.diff ? buildReviewRequestPrompts(item.diff, config, item.context) : []);
+}
+
+// Review each prepared commit separately, writing one report section per commit
+// onCommit is called before each commit is reviewed
+export async function reviewCommitByCommit(
+	items: CommitReviewItem[],
+	config: ReviewConfig,
+	writer: ReviewDocumentWriter,
+	onCommit: (completed: number, total: number, commit: Commit) => void,
+	token?: vscode.CancellationToken
+): Promise<{ reviewResult: ReviewResult; diff: string }> {
+	// The report text is kept alongside the document for export and follow-up discussion
+	let report = '';
+	const write = (text: string) => {
+		report += text;
+		writer.append(text);
+	};
+
+	write(`## Commits\n\n${items.map((item, index) => `- ${formatCommitHeading(item.commit, index)}`).join('\n')}\n\n`);
+
+	const startTime = Date.now();
+	const results: ReviewResult[] = [];
+	const diffs: string[] = [];
+	for (let i = 0; i < items.length; i++) {
+		const { commit, diff, skipReason, context } = items[i];
+		onCommit(i, items.length, commit);
+		write(`---\n\n## ${formatCommitHeading(commit, i)}\n\n`);
+
+		if (!diff) {
+			write(`*Skipped: ${skipReason}*\n\n`);
+			continue;
+		}
+
+		const result = needsChunkedReview(diff, config)
+			? await reviewWithLLMInChunks(diff, config, () => {}, write, token, context)
+			: await reviewWithLLM(diff, config, write, token, context);
+		write('\n\n');
+		results.push(result);
+		diffs.push(diff);
+	}
+
+	if (results.length === 0) {
+		throw new Error('None of the commits in the range could be reviewed');
+	}
+
+	const findings = results.flatMap(result => result.findings || []);
+	return {
+		reviewResult: {
+			modelName: results[0].modelName,
+			review: report,
+			systemPrompt: config.systemPrompt,
+			reviewPerspective: config.reviewPerspective,
+			durationMs: Date.now() - startTime,
+			usage: sumUsage(results),
+			stopReason: results[results.length - 1].stopReason,
+			findings: config.structuredOutput ? findings : undefined
+		},
+		diff: diffs.join('\n\n')
+	};
+}
@@ -1,5 +1,8 @@
 import * as vscode from 'vscode';
 import { ReviewConfig } from './types';
+import { getProvider } from './providers/providerRegistry';
+import { FavoritePromptsService } from './favoritePromptsService';
+import { getDebugOutputChannel } from './logger';
 
 // Get configuration from VS Code settings
 export function getConfiguration(): ReviewConfig {
@@ -11,14 +14,29 @@ export function getConfiguration(): ReviewConfig {
 		systemPrompt: config.get('systemPrompt', ''),
 		reviewPerspective: config.get('reviewPerspective', ''),
 		contextLines: typeof contextLines === 'number' ? contextLines : 50,
+		smartContext: config.get('smartContext', false),
 		excludeDeletes: config.get('excludeDeletes', true),
-		llmProvider: config.get<'bedrock' | 'vscode-lm'>('llmProvider', 'bedrock'),
+		llmProvider: config.get<string>('llmProvider', 'bedrock'),
 		awsAccessKey: config.get('awsAccessKey', ''),
 		awsSecretKey: config.get('awsSecretKey', ''),
 		awsRegion: config.get('awsRegion', 'us-east-1'),
 		modelName: config.get('modelName', 'anthropic.claude-3-sonnet-20240229-v1:0'),
 		vscodeLmVendor: config.get('vscodeLmVendor', 'copilot'),
 		vscodeLmFamily: config.get('vscodeLmFamily', 'gpt-4o'),
+		openaiBaseUrl: config.get('openaiBaseUrl', 'http://localhost:8000/v1'),
+		openaiApiKey: config.get('openaiApiKey', ''),
+		openaiModel: config.get('openaiModel', ''),
+		openaiTemperature: config.get('openaiTemperature', 0.2),
+		ollamaBaseUrl: config.get('ollamaBaseUrl', 'http://localhost:11434'),
+		ollamaModel: config.get('ollamaModel', ''),
+		anthropicApiKey: config.get('anthropicApiKey', ''),
+		anthropicModel: config.get('anthropicModel', 'claude-3-5-sonnet-latest'),
+		anthropicMaxTokens: config.get('anthropicMaxTokens', 4000),
+		chunkedReview: config.get('chunkedReview', true),
+		chunkTokenBudget: config.get('chunkTokenBudget', 12000),
+		confirmTokenThreshold: config.get('confirmTokenThreshold', 50000),
+		structuredOutput: config.get('structuredOutput', false),
+		includeCommitContext: config.get('includeCommitContext', false),
 		fileExtensions: config.get('fileExtensions', ''),
 		maxFileSize: config.get('maxFileSize', 1048576),
 		fileSizeUnit: config.get<'KB' | 'MB'>('fileSizeUnit', 'MB'),
@@ -42,6 +60,7 @@ export function getConfiguration(): ReviewConfig {
 		systemPrompt: result.systemPrompt ? '***SET***' : 'EMPTY',
 		reviewPerspective: result.reviewPerspective ? '***SET***' : 'EMPTY',
 		contextLines: result.contextLines,
+		smartContext: result.smartContext,
 		excludeDeletes: result.excludeDeletes,
 		llmProvider: result.llmProvider,
 		awsAccessKey: result.awsAccessKey ? '***SET***' : 'EMPTY',
@@ -50,15 +69,29 @@ export function getConfiguration(): ReviewConfig {
 		modelName: result.modelName,
 		vscodeLmVendor: result.vscodeLmVendor,
 		vscodeLmFamily: result.vscodeLmFamily,
+		openaiBaseUrl: result.openaiBaseUrl,
+		openaiApiKey: result.openaiApiKey ? '***SET***' : 'EMPTY',
+		openaiModel: result.openaiModel,
+		ollamaBaseUrl: result.ollamaBaseUrl,
+		ollamaModel: result.ollamaModel,
+		anthropicApiKey: result.anthropicApiKey ? '***SET***' : 'EMPTY',
+		anthropicModel: result.anthropicModel,
+		chunkedReview: result.chunkedReview,
+		chunkTokenBudget: result.chunkTokenBudget,
+		confirmTokenThreshold: result.confirmTokenThreshold,
+		structuredOutput: result.structuredOutput,
+		includeCommitContext: result.includeCommitContext,
 		fileExtensions: result.fileExtensions
 	});
 	
-	// Also show in VS Code output for easier debugging
-	const outputChannel = vscode.window.createOutputChannel('DiffLens Debug');
+	// Also write to the VS Code output for easier debugging, without showing it:
+	// the configuration is read for every chat message and tool call
+	const outputChannel = getDebugOutputChannel();
 	outputChannel.appendLine(`[${new Date().toISOString()}] Configuration loaded:`);
 	outputChannel.appendLine(`  System Prompt: ${result.systemPrompt ? '***SET***' : 'EMPTY'}`);
 	outputChannel.appendLine(`  Review Perspective: ${result.reviewPerspective ? '***SET***' : 'EMPTY'}`);
 	outputChannel.appendLine(`  Context Lines: ${result.contextLines}`);
+	outputChannel.appendLine(`  Smart Context: ${result.smartContext}`);
 	outputChannel.appendLine(`  Exclude Deletes: ${result.excludeDeletes}`);
 	outputChannel.appendLine(`  LLM Provider: ${result.llmProvider}`);
 	outputChannel.appendLine(`  AWS Access Key: ${result.awsAccessKey ? '***SET***' : 'EMPTY'}`);
@@ -67,12 +100,40 @@ export function getConfiguration(): ReviewConfig {
 	outputChannel.appendLine(`  Model Name: ${result.modelName}`);
 	outputChannel.appendLine(`  VS Code LM Vendor: ${result.vscodeLmVendor}`);
 	outputChannel.appendLine(`  VS Code LM Family: ${result.vscodeLmFamily}`);
+	outputChannel.appendLine(`  OpenAI Base URL: ${result.openaiBaseUrl}`);
+	outputChannel.appendLine(`  OpenAI API Key: ${result.openaiApiKey ? '***SET***' : 'EMPTY'}`);
+	outputChannel.appendLine(`  OpenAI Model: ${result.openaiModel}`);
+	outputChannel.appendLine(`  Ollama Base URL: ${result.ollamaBaseUrl}`);
+	outputChannel.appendLine(`  Ollama Model: ${result.ollamaModel}`);
+	outputChannel.appendLine(`  Anthropic API Key: ${result.anthropicApiKey ? '***SET***' : 'EMPTY'}`);
+	outputChannel.appendLine(`  Anthropic Model: ${result.anthropicModel}`);
+	outputChannel.appendLine(`  Chunked Review: ${result.chunkedReview} (budget: ${result.chunkTokenBudget} tokens)`);
 	outputChannel.appendLine(`  File Extensions: ${result.fileExtensions}`);
-	outputChannel.show();
 	
 	return result;
 }
 
+// Get the configuration with a favorite prompt's prompts applied when one is named, and validate it
+// Used by reviews requested from chat and language model tools, which pick a prompt by name
+export function getConfigurationWithFavoritePrompt(promptName?: string): ReviewConfig {
+	const config = getConfiguration();
+	if (promptName) {
+		const favorite = FavoritePromptsService.findFavoritePromptByName(promptName);
+		if (!favorite) {
+			const names = FavoritePromptsService.getFavoritePrompts().map(prompt => prompt.name);
+			throw new Error(`Favorite prompt "${promptName}" not found${names.length > 0 ? `. Available prompts: ${names.join(', ')}` : ''}`);
+		}
+		config.systemPrompt = favorite.systemPrompt;
+		config.reviewPerspective = favorite.reviewPerspective;
+	}
+
+	const configErrors = validateConfiguration(config);
+	if (configErrors.length > 0) {
+		throw new Error(`Configuration errors: ${configErrors.join(', ')}`);
+	}
+	return config;
+}
+
 // Validate configuration
 export function validateConfiguration(config: ReviewConfig): string[] {
 	const errors: string[] = [];
@@ -98,20 +159,14 @@ export function validateConfiguration(config: ReviewConfig): string[] {
 	}
 	
 	// Provider-specific validation
-	if (config.llmProvider === 'bedrock') {
-		if (!config.awsAccessKey) {
-			console.log('AWS Access Key is missing');
-			errors.push('AWS Access Key is required for Bedrock');
-		}
-		if (!config.awsSecretKey) {
-			console.log('AWS Secret Key is missing');
-			errors.push('AWS Secret Key is required for Bedrock');
-		}
-	} else if (config.llmProvider === 'vscode-lm') {
-		if (!config.vscodeLmFamily) {
-			console.log('VS Code LM Family is missing');
-			errors.push('VS Code LM Family is required');
-		}
+	const provider = getProvider(config.llmProvider);
+	if (!provider) {
+		console.log('LLM provider is not registered:', config.llmProvider);
+		errors.push(`Unknown LLM provider: ${config.llmProvider}`);
+	} else {
+		const providerErrors = provider.validateConfig(config);
+		providerErrors.forEach(error => console.log(error));
+		errors.push(...providerErrors);
 	}
 	
 	console.log('Validation errors:', errors);
@@ -120,14 +175,14 @@ export function validateConfiguration(config: ReviewConfig): string[] {
 
 // Get available VS Code LM families
 export async function getAvailableVSCodeLMFamilies(): Promise<string[]> {
-	try {
-		const allModels = await vscode.lm.selectChatModels();
-		const families = [...new Set(allModels.map(model => model.family))].sort();
-		console.log('Available VS Code LM families:', families);
-		return families;
-	} catch (error) {
-		console.log('Failed to get VS Code LM families:', error);
-		// Return default families as fallback
-		return ['gpt-4o', 'gpt-4', 'gpt-3.5-turbo', 'claude-3-5-sonnet', 'claude-3-haiku', 'claude-3-opus', 'gemini-1.5-pro', 'gemini-1.5-flash'];
+	return await getProvider('vscode-lm')!.listModels(getConfiguration());
+}
+
+// Get models installed in the local Ollama daemon
+export async function getAvailableOllamaModels(baseUrl?: string): Promise<string[]> {
+	const config = getConfiguration();
+	if (baseUrl) {
+		config.ollamaBaseUrl = baseUrl;
 	}
+	return await getProvider('ollama')!.listModels(config);
 }
@@ -0,0 +1,130 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { FindingSeverity, ReviewFinding } from './types';
+
+// Problems panel entries for structured review findings
+let diagnosticCollection: vscode.DiagnosticCollection | undefined;
+const findingsByUri = new Map<string, ReviewFinding[]>();
+
+// Reviews that were not written to a results document (e.g. chat reviews) are linked as a read-only virtual document
+const REVIEW_SCHEME = 'difflens-review';
+const REVIEW_URI = vscode.Uri.from({ scheme: REVIEW_SCHEME, path: '/DiffLens Review.md' });
+let reviewText = '';
+
+const SEVERITY_MAP: Record<FindingSeverity, vscode.DiagnosticSeverity> = {
+	critical: vscode.DiagnosticSeverity.Error,
+	major: vscode.DiagnosticSeverity.Warning,
+	minor: vscode.DiagnosticSeverity.Information,
+	suggestion: vscode.DiagnosticSeverity.Hint
+};
+
+// Create the diagnostic collection and the provider of the virtual review document; dispose them with the extension
+export function createReviewDiagnostics(): vscode.Disposable {
+	diagnosticCollection = vscode.languages.createDiagnosticCollection('difflens');
+	return vscode.Disposable.from(
+		diagnosticCollection,
+		vscode.workspace.registerTextDocumentContentProvider(REVIEW_SCHEME, {
+			provideTextDocumentContent: () => reviewText
+		})
+	);
+}
+
+// Resolve a finding's path to a file URI
+// Paths are relative to the reviewed repository when its root is known, otherwise to a workspace folder
+export function resolveFindingUri(file: string, repositoryPath?: string): vscode.Uri | undefined {
+	if (path.isAbsolute(file)) {
+		return vscode.Uri.file(file);
+	}
+
+	// Paths taken from a diff header may keep the a/ or b/ prefix
+	const relativePath = file.replace(/^[ab]\//, '');
+	if (repositoryPath) {
+		return vscode.Uri.joinPath(vscode.Uri.file(repositoryPath), relativePath);
+	}
+
+	const folders = vscode.workspace.workspaceFolders;
+	if (!folders || folders.length === 0) {
+		return undefined;
+	}
+
+	// In multi-root workspaces asRelativePath prefixes the workspace folder name
+	const folder = folders.find(f => relativePath.startsWith(`${f.name}/`));
+	if (folder && folders.length > 1) {
+		return vscode.Uri.joinPath(folder.uri, relativePath.substring(folder.name.length + 1));
+	}
+	return vscode.Uri.joinPath(folders[0].uri, relativePath);
+}
+
+// Line range of a finding; line numbers are 1-based and 0 means the finding is not line specific
+function findingRange(finding: ReviewFinding): vscode.Range {
+	const line = Math.max(finding.line - 1, 0);
+	return new vscode.Range(line, 0, line, Number.MAX_SAFE_INTEGER);
+}
+
+// Position of a finding's heading in the review text, or undefined when the review has no heading for it
+function findingPosition(text: string, finding: ReviewFinding): vscode.Position | undefined {
+	const offset = text.indexOf(`### ${finding.title}`);
+	if (offset === -1) {
+		return undefined;
+	}
+	const linesBefore = text.substring(0, offset).split('\n');
+	return new vscode.Position(linesBefore.length - 1, linesBefore[linesBefore.length - 1].length);
+}
+
+// Replace the published findings with those of the latest review
+// Each diagnostic links to its finding in the results document, or in a virtual document of the review text
+export function publishReviewDiagnostics(findings: ReviewFinding[], review: string, reviewDocument?: vscode.TextDocument, repositoryPath?: string): void {
+	if (!diagnosticCollection) {
+		return;
+	}
+	diagnosticCollection.clear();
+	findingsByUri.clear();
+	reviewText = review;
+	const linkUri = reviewDocument ? reviewDocument.uri : REVIEW_URI;
+	const linkText = reviewDocument ? reviewDocument.getText() : review;
+
+	const diagnosticsByFile = new Map<string, { uri: vscode.Uri; diagnostics: vscode.Diagnostic[] }>();
+	for (const finding of findings) {
+		const uri = resolveFindingUri(finding.file, repositoryPath);
+		if (!uri) {
+			continue;
+		}
+
+		const diagnostic = new vscode.Diagnostic(
+			findingRange(finding),
+			`${finding.title}: ${finding.description}`,
+			SEVERITY_MAP[finding.severity]
+		);
+		diagnostic.source = 'DiffLens';
+		diagnostic.code = finding.category;
+		const position = findingPosition(linkText, finding);
+		if (position) {
+			diagnostic.relatedInformation = [
+				new vscode.DiagnosticRelatedInformation(new vscode.Location(linkUri, position), 'Full review')
+			];
+		}
+
+		const entry = diagnosticsByFile.get(uri.toString()) || { uri, diagnostics: [] };
+		entry.diagnostics.push(diagnostic);
+		diagnosticsByFile.set(uri.toString(), entry);
+		findingsByUri.set(uri.toString(), [...(findingsByUri.get(uri.toString()) || []), finding]);
+	}
+
+	for (const { uri, diagnostics } of diagnosticsByFile.values()) {
+		diagnosticCollection.set(uri, diagnostics);
+	}
+}
+
+// Find the review finding a DiffLens diagnostic was published for
+export function getFindingForDiagnostic(uri: vscode.Uri, diagnostic: vscode.Diagnostic): ReviewFinding | undefined {
+	return findingsByUri.get(uri.toString())?.find(finding =>
+		findingRange(finding).start.line === diagnostic.range.start.line &&
+		`${finding.title}: ${finding.description}` === diagnostic.message
+	);
+}
+
+// Remove all published findings
+export function clearReviewDiagnostics(): void {
+	diagnosticCollection?.clear();
+	findingsByUri.clear();
+}
@@ -1,26 +1,16 @@
 import * as vscode from 'vscode';
-import { Status, Change, Repository, Commit, ReviewConfig, ExclusionSummary } from './types';
-import { getGitRepository, getChangesFromGitAPI } from './gitService';
+import * as jsdiff from 'diff';
+import { createHash } from 'crypto';
+import { Status, Change, BlobHashes, ContextBlock, Repository, ReviewConfig, ExclusionSummary, SmartContextBlocks, STAGED_CHANGES_TARGET, WORKING_TREE_CHANGES_TARGET } from './types';
+import { getRepositoryByPath, getChangesFromGitAPI, getRepositoryRelativePath, getUncommittedChanges, isUncommittedTarget, parseCommitRange, resolveCommitRange } from './gitService';
 import { logGitOperation } from './logger';
 import { FileFilterService } from './fileFilterService';
-
-const jsdiff = require('diff');
+import { findSmartContextBlocks } from './smartContextService';
 
 // Advanced file content reconstruction using VS Code Git API
 // This function attempts to get accurate file content by leveraging all available VS Code Git capabilities
 async function getAdvancedFileContent(repository: Repository, commitHash: string, relativeFilePath: string): Promise<string> {
 	try {
-		// For HEAD, read current file directly
-		if (commitHash === 'HEAD') {
-			const fileUri = vscode.Uri.joinPath(repository.rootUri, relativeFilePath);
-			try {
-				const content = await vscode.workspace.fs.readFile(fileUri);
-				return Buffer.from(content).toString('utf8');
-			} catch {
-				return '';
-			}
-		}
-
 		// Try multiple VS Code Git URI schemes
 		const gitUriSchemes = [
 			// Standard git scheme with path and ref
@@ -82,24 +72,26 @@ async function getAdvancedFileContent(repository: Repository, commitHash: string
 			logGitOperation(`SCM API approach failed for ${relativeFilePath}`, scmError);
 		}
 
-		// Fallback: return empty content to indicate historical content is not available
-		logGitOperation(`Could not retrieve historical content for ${relativeFilePath} at ${commitHash}, returning empty content`);
-		return '';
+		// An empty result would be diffed as if the whole file had been added or deleted
+		logGitOperation(`Could not retrieve historical content for ${relativeFilePath} at ${commitHash}`);
+		throw new Error(`Could not read ${relativeFilePath} at ${commitHash}`);
 		
 	} catch (error) {
 		logGitOperation(`Error in advanced file content retrieval for ${relativeFilePath}`, error);
-		return '';
+		throw error;
 	}
 }
 
 // Get file content at a specific commit using enhanced VS Code Git API methods
-async function getFileContentAtCommit(repository: Repository, commitHash: string, relativeFilePath: string, workspacePath: string): Promise<string> {
+// Throws when the file cannot be read; callers only read the sides of a change where the file exists
+async function getFileContentAtCommit(repository: Repository, commitHash: string, relativeFilePath: string, repositoryPath: string): Promise<string> {
 	try {
 		// Try the enhanced API methods first
 		if (repository.show) {
 			try {
+				// An empty file is valid content; show throws when the file does not exist at the commit
 				const content = await repository.show(commitHash, relativeFilePath);
-				if (content) {
+				if (typeof content === 'string') {
 					logGitOperation(`Successfully got content using repository.show for ${relativeFilePath}`);
 					return content;
 				}
@@ -111,7 +103,7 @@ async function getFileContentAtCommit(repository: Repository, commitHash: string
 		if (repository.getObjectContent) {
 			try {
 				const content = await repository.getObjectContent(commitHash, relativeFilePath);
-				if (content) {
+				if (typeof content === 'string') {
 					logGitOperation(`Successfully got content using repository.getObjectContent for ${relativeFilePath}`);
 					return content;
 				}
@@ -161,7 +153,7 @@ async function getFileContentAtCommit(repository: Repository, commitHash: string
 		return await getAdvancedFileContent(repository, commitHash, relativeFilePath);
 	} catch (error) {
 		logGitOperation(`Error in enhanced file content retrieval for ${relativeFilePath}`, error);
-		return await getAdvancedFileContent(repository, commitHash, relativeFilePath);
+		throw new Error(`Failed to read ${relativeFilePath} at ${commitHash || 'the index'}: ${error}`);
 	}
 }
 
@@ -227,12 +219,26 @@ export function formatDiffAsMarkdown(diff: string): string {
 	let currentFile = '';
 	let inFileHeader = false;
 	let fileContent: string[] = [];
+	// Rename or copy headers of the current file
+	let movedFrom = '';
+	let moveOperation = '';
+	let similarity = '';
 	
 	// Helper function to process accumulated file content
 	const processFileContent = () => {
-		if (currentFile && fileContent.length > 0) {
+		if (currentFile && movedFrom) {
+			// Say explicitly that the file was moved, so its hunks are not reviewed as a rewrite
+			const verb = moveOperation === 'copy' ? 'copied' : 'moved';
+			result.push(`## ${currentFile} (${verb} from ${movedFrom})`);
+			result.push('');
+			result.push(`This file was ${verb} from \`${movedFrom}\`, not rewritten (${similarity} similar). ` +
+				(fileContent.length > 0 ? 'The diff shows only the changes made to its content.' : 'Its content is unchanged.'));
+			result.push('');
+		} else if (currentFile && fileContent.length > 0) {
 			result.push(`## ${currentFile}`);
 			result.push('');
+		}
+		if (currentFile && fileContent.length > 0) {
 			result.push('```diff');
 			result.push(...fileContent);
 			result.push('```');
@@ -254,9 +260,24 @@ export function formatDiffAsMarkdown(diff: string): string {
 				currentFile = 'Unknown file';
 			}
 			fileContent = [];
+			movedFrom = '';
+			moveOperation = '';
+			similarity = '';
 			inFileHeader = true;
 			continue;
 		}
+
+		// Rename and copy headers are described in the file heading
+		const moveMatch = inFileHeader ? line.match(/^(rename|copy) from (.+)$/) : null;
+		if (moveMatch) {
+			moveOperation = moveMatch[1];
+			movedFrom = moveMatch[2];
+			continue;
+		}
+		if (inFileHeader && (line.startsWith('similarity index ') || /^(rename|copy) to /.test(line))) {
+			similarity = line.startsWith('similarity index ') ? line.substring('similarity index '.length) : similarity;
+			continue;
+		}
 		
 		// Skip git metadata lines but keep tracking file headers
 		if (line.startsWith('index ') || 
@@ -283,58 +304,125 @@ export function formatDiffAsMarkdown(diff: string): string {
 	return result.join('\n');
 }
 
+// An empty ref reads the staged (index) version of a file, as in "git show :<path>"
+const INDEX_REF = '';
+
+// Human-readable description of a comparison target
+function describeComparison(compareToCommit: string | null): string {
+	if (compareToCommit === STAGED_CHANGES_TARGET) {
+		return 'Staged changes';
+	}
+	if (compareToCommit === WORKING_TREE_CHANGES_TARGET) {
+		return 'Working tree changes';
+	}
+	if (compareToCommit && /\.{2,3}/.test(compareToCommit)) {
+		return compareToCommit;
+	}
+	return compareToCommit ? `Current HEAD vs Commit ${compareToCommit.substring(0, 8)}` : 'Latest commit';
+}
+
+// Diff of one staged or working tree change; untracked files are diffed as additions
+// Throws when a side that exists cannot be read, rather than diffing it as empty
+export async function generateUncommittedFileDiff(repository: Repository, change: Change, staged: boolean, contextLines: number, smartContext: boolean, repositoryPath: string): Promise<string> {
+	const relPath = getRepositoryRelativePath(repository, change.uri);
+	const originalPath = change.originalUri ? getRepositoryRelativePath(repository, change.originalUri) : relPath;
+	const isAdded = change.status === Status.INDEX_ADDED || change.status === Status.UNTRACKED;
+	const isDeleted = change.status === Status.INDEX_DELETED || change.status === Status.DELETED;
+
+	// Old side: HEAD for staged changes, the index for working tree changes
+	let oldContent = '';
+	const blobHashes: BlobHashes = {};
+	if (!isAdded) {
+		const oldRef = staged ? 'HEAD' : INDEX_REF;
+		oldContent = await getFileContentAtCommit(repository, oldRef, originalPath, repositoryPath);
+		blobHashes.oldHash = await getBlobHash(repository, oldRef, originalPath);
+	}
+
+	// New side: the index for staged changes, the file on disk for working tree changes
+	let newContent = '';
+	if (!isDeleted) {
+		if (staged) {
+			newContent = await getFileContentAtCommit(repository, INDEX_REF, relPath, repositoryPath);
+			blobHashes.newHash = await getBlobHash(repository, INDEX_REF, relPath);
+		} else {
+			try {
+				const content = await vscode.workspace.fs.readFile(vscode.Uri.joinPath(repository.rootUri, relPath));
+				newContent = Buffer.from(content).toString('utf8');
+				blobHashes.newHash = abbreviateBlobHash(content);
+			} catch (error) {
+				logGitOperation(`Failed to read working tree content for ${relPath}`, error);
+				throw new Error(`Failed to read ${relPath} in the working tree: ${error}`);
+			}
+		}
+	}
+
+	logGitOperation(`Generating ${staged ? 'staged' : 'working tree'} diff for ${relPath}`, {
+		status: change.status,
+		oldLength: oldContent.length,
+		newLength: newContent.length
+	});
+	if (isAdded || isDeleted) {
+		return generatePreciseUnifiedDiff(originalPath, relPath, oldContent, newContent, contextLines, isAdded ? 'added' : 'deleted', undefined, blobHashes);
+	}
+	const blocks = smartContext ? await findSmartContextBlocks(repository.rootUri, relPath, oldContent, newContent) : undefined;
+	if (change.status === Status.INDEX_RENAMED || change.status === Status.INDEX_COPIED) {
+		return generateRenameDiff(originalPath, relPath, oldContent, newContent, contextLines, change.status === Status.INDEX_COPIED, blocks, blobHashes);
+	}
+	return generatePreciseUnifiedDiff(originalPath, relPath, oldContent, newContent, contextLines, 'modified', blocks, blobHashes);
+}
+
+// Stop diff generation once the user has cancelled the review
+function throwIfCancelled(token?: vscode.CancellationToken): void {
+	if (token?.isCancellationRequested) {
+		throw new vscode.CancellationError();
+	}
+}
+
 // Generate git diff using only the VS Code Git API (no native git command)
 // The output format and filtering must match the native git diff --unified=<n> output as closely as possible
 export async function generateNativeGitDiff(
-	workspacePath: string,
+	repositoryPath: string,
 	compareToCommit: string | null,
 	contextLines: number = 50,
 	excludeDeletes: boolean = true,
 	fileExtensions: string = '',
-	config?: ReviewConfig
+	config?: ReviewConfig,
+	token?: vscode.CancellationToken
 ): Promise<{ diff: string; exclusionSummary?: ExclusionSummary }> {
 	try {
 		logGitOperation('generateNativeGitDiff (GitAPI): Starting with parameters', {
-			workspacePath,
+			repositoryPath,
 			compareToCommit: compareToCommit ? compareToCommit.substring(0, 8) : 'previous commit',
 			contextLines,
 			excludeDeletes,
 			fileExtensions
 		});
 
-		// Find the workspace folder and repository
-		const workspaceFolder = vscode.workspace.workspaceFolders?.find(
-			f => f.uri.fsPath === workspacePath
-		);
-		if (!workspaceFolder) {
-			throw new Error('Workspace folder not found');
-		}
-		const repository = await getGitRepository(workspaceFolder);
+		// Find the repository
+		const repository = await getRepositoryByPath(repositoryPath);
 		if (!repository) {
 			throw new Error('Git repository not found');
 		}
 
 		// Determine the commit range
-		let fromCommit = compareToCommit;
-		let toCommit = 'HEAD';
-		if (!fromCommit) {
-			// Default: previous commit to HEAD
-			const log = await repository.log({ maxEntries: 2 });
-			if (log.length < 2) {
-				throw new Error('Not enough commits to compare');
-			}
-			fromCommit = log[1].hash;
-		}
+		const range = parseCommitRange(compareToCommit);
+		const uncommitted = isUncommittedTarget(compareToCommit);
+		const { fromCommit, toCommit } = uncommitted
+			? { fromCommit: compareToCommit!, toCommit: 'HEAD' }
+			: await resolveCommitRange(repository, compareToCommit);
 
-		// Get changes between commits
-		const changes = await getChangesFromGitAPI(repository, fromCommit, toCommit);
+		// Get changes between commits, or the staged or working tree changes
+		const changes = uncommitted
+			? getUncommittedChanges(repository, compareToCommit === STAGED_CHANGES_TARGET)
+			: await getChangesFromGitAPI(repository, fromCommit, toCommit);
+		throwIfCancelled(token);
 
 		// Filter by file extension if needed
 		let filteredChanges = changes;
 		if (fileExtensions) {
 			const pathspecs = parseFileExtensionsFilter(fileExtensions);
 			filteredChanges = changes.filter(change => {
-				const rel = vscode.workspace.asRelativePath(change.uri);
+				const rel = getRepositoryRelativePath(repository, change.uri);
 				return pathspecs.some(pattern => {
 					// Simple glob-like matching for *.ext and **/*.ext
 					if (pattern.startsWith('**/')) {
@@ -369,6 +457,7 @@ export async function generateNativeGitDiff(
 			});
 
 			const filterResult = await fileFilterService.filterFiles(filePaths);
+			throwIfCancelled(token);
 			exclusionSummary = filterResult.exclusionSummary;
 
 			// Filter out excluded files from changes
@@ -404,7 +493,8 @@ export async function generateNativeGitDiff(
 
 		if (filteredChanges.length === 0) {
 			const filterInfo = fileExtensions ? ` with filter "${fileExtensions}"` : '';
-			const compareInfo = compareToCommit ? ` between commit ${compareToCommit.substring(0, 8)} and HEAD` : ' in the latest commit';
+			const compareInfo = uncommitted ? ` in the ${describeComparison(compareToCommit).toLowerCase()}` :
+				compareToCommit ? ` between ${range.base || fromCommit} and ${toCommit}` : ' in the latest commit';
 			const exclusionInfo = exclusionSummary && exclusionSummary.summary.totalFiles > 0 ? 
 				` (${exclusionSummary.summary.totalFiles} files excluded by filters)` : '';
 			throw new Error(`No changes found${compareInfo}${filterInfo}${exclusionInfo}`);
@@ -413,21 +503,9 @@ export async function generateNativeGitDiff(
 		// Generate diff output for each file
 		const diffs: string[] = [];
 		
-		// Try to get the commit object for more detailed diff information
-		let commit: Commit | undefined;
-		try {
-			const commits = await repository.log({ maxEntries: 100 });
-			commit = commits.find(c => c.hash.startsWith(fromCommit));
-			logGitOperation(`Found commit for detailed diff`, { 
-				commitHash: commit?.hash?.substring(0, 8),
-				commitMessage: commit?.message?.substring(0, 50)
-			});
-		} catch (error) {
-			logGitOperation(`Failed to get commit object for detailed diff`, error);
-		}
-		
 		for (const change of filteredChanges) {
-			const relPath = vscode.workspace.asRelativePath(change.uri);
+			throwIfCancelled(token);
+			const relPath = getRepositoryRelativePath(repository, change.uri);
 			const oldPath = relPath;
 			const newPath = relPath;
 
@@ -437,133 +515,67 @@ export async function generateNativeGitDiff(
 				toCommit 
 			});
 
-			// For added files, create a proper addition diff that matches git show format
-			if (change.status === Status.INDEX_ADDED || change.status === Status.ADDED_BY_US) {
-				try {
-					const fileUri = vscode.Uri.joinPath(repository.rootUri, relPath);
-					const content = await vscode.workspace.fs.readFile(fileUri);
-					const newContent = Buffer.from(content).toString('utf8');
-					const lines = newContent.split('\n');
-					
-					let result = `diff --git a/${oldPath} b/${newPath}\n`;
-					result += `new file mode 100644\n`;
-					result += `index 0000000..0000000\n`;
-					result += `--- /dev/null\n`;
-					result += `+++ b/${newPath}\n`;
-					
-					// If file is not empty, add the content with proper hunk header
-					if (newContent.trim()) {
-						result += `@@ -0,0 +1,${lines.length} @@\n`;
-						for (const line of lines) {
-							result += `+${line}\n`;
-						}
-					} else {
-						// Empty file
-						result += `@@ -0,0 +1 @@\n`;
-						result += `+\n`;
-					}
-					
-					diffs.push(result.trim());
-					logGitOperation(`Generated git show style addition diff for ${relPath}`, {
-						linesAdded: lines.length,
-						isEmpty: !newContent.trim(),
-						hasHeader: result.includes('new file mode'),
-						diffLength: result.length
-					});
-					continue;
-				} catch (error) {
-					logGitOperation(`Failed to generate addition diff for ${relPath}`, error);
+			// Staged changes compare the index with HEAD, working tree changes the working tree with the index
+			if (uncommitted) {
+				const fileDiff = await generateUncommittedFileDiff(repository, change, compareToCommit === STAGED_CHANGES_TARGET, contextLines, !!config?.smartContext, repositoryPath);
+				if (fileDiff) {
+					diffs.push(fileDiff);
 				}
+				continue;
+			}
+
+			// For renamed and copied files, diff the content at the original path with the content at the new path
+			if (change.status === Status.INDEX_RENAMED || change.status === Status.INDEX_COPIED) {
+				const originalPath = getRepositoryRelativePath(repository, change.originalUri);
+				const renamedPath = getRepositoryRelativePath(repository, change.renameUri || change.uri);
+				const oldContent = await getFileContentAtCommit(repository, fromCommit, originalPath, repositoryPath);
+				const newContent = await getFileContentAtCommit(repository, toCommit, renamedPath, repositoryPath);
+				const blobHashes = {
+					oldHash: await getBlobHash(repository, fromCommit, originalPath),
+					newHash: await getBlobHash(repository, toCommit, renamedPath)
+				};
+				const blocks = config?.smartContext ? await findSmartContextBlocks(repository.rootUri, renamedPath, oldContent, newContent) : undefined;
+				diffs.push(generateRenameDiff(originalPath, renamedPath, oldContent, newContent, contextLines, change.status === Status.INDEX_COPIED, blocks, blobHashes));
+				logGitOperation(`Generated ${change.status === Status.INDEX_COPIED ? 'copy' : 'rename'} diff for ${originalPath} -> ${renamedPath}`);
+				continue;
+			}
+
+			// For added and deleted files, diff the content of the commit that has the file against nothing
+			if (change.status === Status.INDEX_ADDED || change.status === Status.ADDED_BY_US) {
+				const newContent = await getFileContentAtCommit(repository, toCommit, relPath, repositoryPath);
+				const newHash = await getBlobHash(repository, toCommit, relPath);
+				diffs.push(generatePreciseUnifiedDiff(oldPath, newPath, '', newContent, contextLines, 'added', undefined, { newHash }));
+				logGitOperation(`Generated diff for added ${relPath}`, { newLength: newContent.length });
+				continue;
+			}
+			if (change.status === Status.INDEX_DELETED || change.status === Status.DELETED) {
+				const oldContent = await getFileContentAtCommit(repository, fromCommit, relPath, repositoryPath);
+				const oldHash = await getBlobHash(repository, fromCommit, relPath);
+				diffs.push(generatePreciseUnifiedDiff(oldPath, newPath, oldContent, '', contextLines, 'deleted', undefined, { oldHash }));
+				logGitOperation(`Generated diff for deleted ${relPath}`, { oldLength: oldContent.length });
+				continue;
 			}
 
-			// For modified files, try to get actual diff using VS Code Git API
+			// For modified files, diff the old and new contents like git diff --unified=<contextLines>
 			if (change.status === Status.MODIFIED || change.status === Status.INDEX_MODIFIED) {
-				try {
-					// Try different approaches to get actual diff content
-					let diffContent = '';
-					
-					// Approach 1: Use repository's diffBetween method if available
-					if (repository.diffBetween) {
-						try {
-							const diffChanges = await repository.diffBetween(fromCommit, 'HEAD', relPath);
-							if (diffChanges && diffChanges.length > 0) {
-								logGitOperation(`Found ${diffChanges.length} diff changes using diffBetween for ${relPath}`);
-								// Check if the changes contain the actual diff text
-								for (const diffChange of diffChanges) {
-									if ((diffChange as any).patch || (diffChange as any).diff) {
-										diffContent = (diffChange as any).patch || (diffChange as any).diff;
-										logGitOperation(`Found patch/diff content in diffBetween result for ${relPath}`);
-										break;
-									}
-								}
-							}
-						} catch (diffError) {
-							logGitOperation(`diffBetween failed for ${relPath}`, diffError);
-						}
-					}
-					
-					// Approach 2: Use repository's diffWith method
-					if (!diffContent && repository.diffWith) {
-						try {
-							const diffChanges = await repository.diffWith(fromCommit, relPath);
-							if (diffChanges && diffChanges.length > 0) {
-								logGitOperation(`Found ${diffChanges.length} diff changes using diffWith for ${relPath}`);
-								// Check if the changes contain the actual diff text
-								for (const diffChange of diffChanges) {
-									if ((diffChange as any).patch || (diffChange as any).diff) {
-										diffContent = (diffChange as any).patch || (diffChange as any).diff;
-										logGitOperation(`Found patch/diff content in diffWith result for ${relPath}`);
-										break;
-									}
-								}
-							}
-						} catch (diffError) {
-							logGitOperation(`diffWith failed for ${relPath}`, diffError);
-						}
-					}
-					
-					// Approach 3: Try to get diff from commit object if we have it
-					if (!diffContent && commit) {
-						try {
-							// Check if the commit has diff information
-							if ((commit as any).diff) {
-								const commitDiff = (commit as any).diff;
-								logGitOperation(`Commit has diff property for ${relPath}`, { diffType: typeof commitDiff });
-								if (typeof commitDiff === 'string') {
-									diffContent = commitDiff;
-								}
-							}
-							
-							// Check if the commit has file information
-							if ((commit as any).files) {
-								const commitFiles = (commit as any).files;
-								logGitOperation(`Commit has files property`, { filesCount: commitFiles?.length });
-								const fileInfo = commitFiles?.find((f: any) => f.path === relPath || f.filename === relPath);
-								if (fileInfo && (fileInfo.patch || fileInfo.diff)) {
-									diffContent = fileInfo.patch || fileInfo.diff;
-									logGitOperation(`Found file diff in commit files for ${relPath}`);
-								}
-							}
-						} catch (commitError) {
-							logGitOperation(`Failed to extract diff from commit object for ${relPath}`, commitError);
-						}
-					}
-					
-					// If we found actual diff content, use it
-					if (diffContent) {
-						diffs.push(diffContent);
-						logGitOperation(`Used actual diff content for modified ${relPath}`, {
-							diffLength: diffContent.length,
-							hasUnifiedFormat: diffContent.includes('@@'),
-							hasFileHeader: diffContent.includes('diff --git')
-						});
-						continue;
-					} else {
-						logGitOperation(`No actual diff content found for ${relPath}, falling back to manual diff generation`);
-					}
-				} catch (error) {
-					logGitOperation(`Failed to get actual diff for modified file ${relPath}`, error);
+				const oldContent = await getFileContentAtCommit(repository, fromCommit, relPath, repositoryPath);
+				const newContent = await getFileContentAtCommit(repository, toCommit, relPath, repositoryPath);
+				const blobHashes = {
+					oldHash: await getBlobHash(repository, fromCommit, relPath),
+					newHash: await getBlobHash(repository, toCommit, relPath)
+				};
+				// With smart context, hunks are grown to the enclosing function, class or block
+				const blocks = config?.smartContext ? await findSmartContextBlocks(repository.rootUri, relPath, oldContent, newContent) : undefined;
+				const diff = generatePreciseUnifiedDiff(oldPath, newPath, oldContent, newContent, contextLines, 'modified', blocks, blobHashes);
+				if (diff) {
+					diffs.push(diff);
 				}
+				logGitOperation(`Generated diff for modified ${relPath}`, {
+					oldLength: oldContent.length,
+					newLength: newContent.length,
+					diffLength: diff.length
+				});
+				continue;
 			}
 
 			// Fallback: Get file contents and generate diff manually
@@ -572,7 +584,7 @@ export async function generateNativeGitDiff(
 			
 			try {
 				// Get old content using VS Code Git API
-				oldContent = await getFileContentAtCommit(repository, fromCommit, relPath, workspacePath);
+				oldContent = await getFileContentAtCommit(repository, fromCommit, relPath, repositoryPath);
 				logGitOperation(`Old content length for ${relPath}: ${oldContent.length} characters`);
 			} catch (error) {
 				logGitOperation(`Failed to get old content for ${relPath} at ${fromCommit}`, error);
@@ -580,43 +592,12 @@ export async function generateNativeGitDiff(
 			}
 			
 			try {
-				// Get new content from current working directory file
-				const fileUri = vscode.Uri.joinPath(repository.rootUri, relPath);
-				const content = await vscode.workspace.fs.readFile(fileUri);
-				newContent = Buffer.from(content).toString('utf8');
+				// Get new content from the target of the comparison
+				newContent = await getFileContentAtCommit(repository, toCommit, relPath, repositoryPath);
 				logGitOperation(`New content length for ${relPath}: ${newContent.length} characters`);
 			} catch (error) {
-				logGitOperation(`Failed to get current content for ${relPath}`, error);
-				// If it's a deleted file, the current content should be empty
-				if (change.status === Status.INDEX_DELETED || change.status === Status.DELETED) {
-					newContent = '';
-					logGitOperation(`File ${relPath} is deleted, using empty current content`);
-				} else {
-					newContent = '';
-				}
-			}
-
-			// Handle special cases for better diff accuracy using VS Code Git API information
-			if (change.status === Status.INDEX_ADDED || change.status === Status.ADDED_BY_US) {
-				// For newly added files, old content should be empty
-				oldContent = '';
-				logGitOperation(`File ${relPath} is newly added, using empty old content`);
-			} else if (change.status === Status.INDEX_DELETED || change.status === Status.DELETED) {
-				// For deleted files, new content should be empty
+				logGitOperation(`Failed to get new content for ${relPath} at ${toCommit}`, error);
 				newContent = '';
-				logGitOperation(`File ${relPath} is deleted, using empty new content`);
-			} else if (change.status === Status.INDEX_RENAMED) {
-				// For renamed files, handle the old and new paths
-				if (change.originalUri) {
-					const originalRelPath = vscode.workspace.asRelativePath(change.originalUri);
-					logGitOperation(`File renamed from ${originalRelPath} to ${relPath}`);
-					// Try to get content from the original location for old content
-					try {
-						oldContent = await getAdvancedFileContent(repository, fromCommit, originalRelPath);
-					} catch (error) {
-						logGitOperation(`Failed to get original content for renamed file ${originalRelPath}`, error);
-					}
-				}
 			}
 
 			// Additional validation and enhancement for content accuracy
@@ -642,7 +623,11 @@ export async function generateNativeGitDiff(
 			// Only generate diff if we have meaningful content differences
 			if (oldContent !== '' || newContent !== '') {
 				// Generate unified diff for this file
-				const diff = generateUnifiedDiff(oldPath, newPath, oldContent, newContent, contextLines);
+				const blobHashes = {
+					oldHash: await getBlobHash(repository, fromCommit, relPath),
+					newHash: await getBlobHash(repository, toCommit, relPath)
+				};
+				const diff = generateUnifiedDiff(oldPath, newPath, oldContent, newContent, contextLines, blobHashes);
 				if (diff) {
 					diffs.push(diff);
 					logGitOperation(`Generated diff for ${relPath}`, {
@@ -678,7 +663,7 @@ export async function generateNativeGitDiff(
 			fileCount: diffs.length,
 			linesCount: result.split('\n').length,
 			sizeBytes: result.length,
-			files: filteredChanges.map(change => vscode.workspace.asRelativePath(change.uri)),
+			files: filteredChanges.map(change => getRepositoryRelativePath(repository, change.uri)),
 			diffsInfo: diffs.map((d, i) => ({
 				index: i,
 				length: d.length,
@@ -694,11 +679,61 @@ export async function generateNativeGitDiff(
 		});
 		return { diff: result, exclusionSummary };
 	} catch (error) {
+		if (error instanceof vscode.CancellationError) {
+			throw error;
+		}
 		logGitOperation('generateNativeGitDiff (GitAPI): Error occurred', error);
 		throw new Error(`Failed to generate git diff: ${error}`);
 	}
 }
 
+// Abbreviated hash of a side that has no file, as in the index line of added and deleted files
+const NULL_BLOB_HASH = '0000000';
+
+// Git blob hash of a file content, as computed by "git hash-object", abbreviated like git diff's index line
+// Only the raw bytes of a file give git's hash; a string is hashed as UTF-8
+export function abbreviateBlobHash(content: string | Uint8Array): string {
+	const data = typeof content === 'string' ? Buffer.from(content, 'utf8') : content;
+	return createHash('sha1').update(`blob ${data.length}\0`).update(data).digest('hex').substring(0, 7);
+}
+
+// Abbreviated hash of the blob git stores for a file at a commit, or in the index for an empty ref
+// Undefined when the Git API cannot tell, in which case the hash is computed from the decoded content
+async function getBlobHash(repository: Repository, ref: string, relativeFilePath: string): Promise<string | undefined> {
+	if (!repository.getObjectDetails) {
+		return undefined;
+	}
+	try {
+		const { object } = await repository.getObjectDetails(ref, relativeFilePath);
+		return object.substring(0, 7);
+	} catch (error) {
+		logGitOperation(`Failed to get the blob hash of ${relativeFilePath} at ${ref || 'the index'}`, error);
+		return undefined;
+	}
+}
+
+// Kind of change a file diff describes, which decides its mode and path headers
+type FileChangeKind = 'added' | 'deleted' | 'modified';
+
+// Headers of a file diff between "diff --git" and the first hunk, as written by git diff
+function formatFileHeaders(oldPath: string, newPath: string, oldContent: string, newContent: string, kind: FileChangeKind, hasHunks: boolean, blobHashes?: BlobHashes): string[] {
+	const oldHash = blobHashes?.oldHash || abbreviateBlobHash(oldContent);
+	const newHash = blobHashes?.newHash || abbreviateBlobHash(newContent);
+	const headers = [`diff --git a/${oldPath} b/${newPath}`];
+	if (kind === 'added') {
+		headers.push('new file mode 100644', `index ${NULL_BLOB_HASH}..${newHash}`);
+	} else if (kind === 'deleted') {
+		headers.push('deleted file mode 100644', `index ${oldHash}..${NULL_BLOB_HASH}`);
+	} else {
+		headers.push(`index ${oldHash}..${newHash} 100644`);
+	}
+	// Empty added and deleted files have no content lines, so git omits the path lines too
+	if (hasHunks) {
+		headers.push(kind === 'added' ? '--- /dev/null' : `--- a/${oldPath}`, kind === 'deleted' ? '+++ /dev/null' : `+++ b/${newPath}`);
+	}
+	return headers;
+}
+
 // Generate unified diff string that exactly matches git show output format
 // Enhanced version with precise git-compatible formatting and context lines
 export function generateUnifiedDiff(
@@ -706,7 +741,8 @@ export function generateUnifiedDiff(
 	newPath: string,
 	oldContent: string,
 	newContent: string,
-	contextLines: number
+	contextLines: number,
+	blobHashes?: BlobHashes
 ): string {
 	try {
 		// Handle edge cases
@@ -757,14 +793,16 @@ export function generateUnifiedDiff(
 		result += `diff --git a/${oldPath} b/${newPath}\n`;
 		
 		// Generate index line with proper formatting for different file states
+		const oldHash = blobHashes?.oldHash || abbreviateBlobHash(oldContent);
+		const newHash = blobHashes?.newHash || abbreviateBlobHash(newContent);
 		if (isNewFile) {
 			result += `new file mode 100644\n`;
-			result += `index 0000000..0000000\n`;
+			result += `index ${NULL_BLOB_HASH}..${newHash}\n`;
 		} else if (isDeletedFile) {
 			result += `deleted file mode 100644\n`;
-			result += `index 0000000..0000000\n`;
+			result += `index ${oldHash}..${NULL_BLOB_HASH}\n`;
 		} else {
-			result += `index 0000000..0000000 100644\n`;
+			result += `index ${oldHash}..${newHash} 100644\n`;
 		}
 		
 		// Generate file paths with proper formatting
@@ -799,174 +837,536 @@ export function generateUnifiedDiff(
 	}
 }
 
-// Enhanced unified diff generation with better context handling
+// A line of a line-by-line diff: ' ' unchanged, '-' removed, '+' added
+interface DiffLine {
+	type: ' ' | '-' | '+';
+	text: string;
+	// The last line of a file that does not end with a newline
+	noNewline: boolean;
+}
+
+// A hunk of a unified diff; lines include the surrounding context
+interface DiffHunk {
+	oldStart: number;
+	oldLines: number;
+	newStart: number;
+	newLines: number;
+	lines: DiffLine[];
+}
+
+// Split a diff part into lines, keeping track of a missing newline at the end of the file
+function splitDiffPartLines(value: string): string[] {
+	return value.match(/[^\n]*\n|[^\n]+$/g) || [];
+}
+
+// Line-by-line diff of two file contents, with changes slid to the same place git's indent heuristic puts them
+function diffContentLines(oldContent: string, newContent: string): DiffLine[] {
+	const parts = jsdiff.diffLines(oldContent, newContent);
+	const oldSide: CompactionSide = { lines: [], changed: [] };
+	const newSide: CompactionSide = { lines: [], changed: [] };
+	for (const part of parts) {
+		for (const line of splitDiffPartLines(part.value)) {
+			const diffLine: DiffLine = { type: ' ', text: line.replace(/\n$/, ''), noNewline: !line.endsWith('\n') };
+			if (!part.added) {
+				oldSide.lines.push(diffLine);
+				oldSide.changed.push(!!part.removed);
+			}
+			if (!part.removed) {
+				newSide.lines.push(diffLine);
+				newSide.changed.push(!!part.added);
+			}
+		}
+	}
+
+	compactChanges(oldSide, newSide);
+	compactChanges(newSide, oldSide);
+
+	// Removed lines come before the added lines they are replaced with
+	const lines: DiffLine[] = [];
+	let oldIndex = 0;
+	let newIndex = 0;
+	while (oldIndex < oldSide.lines.length || newIndex < newSide.lines.length) {
+		if (oldSide.changed[oldIndex]) {
+			lines.push({ ...oldSide.lines[oldIndex++], type: '-' });
+		} else if (newSide.changed[newIndex]) {
+			lines.push({ ...newSide.lines[newIndex++], type: '+' });
+		} else {
+			lines.push({ ...oldSide.lines[oldIndex++], type: ' ' });
+			newIndex++;
+		}
+	}
+	return lines;
+}
+
+// One side of a line diff while its changes are slid: each line and whether it was removed or added
+interface CompactionSide {
+	lines: DiffLine[];
+	changed: boolean[];
+}
+
+// A run of changed lines on one side, or an empty run between two unchanged lines
+interface ChangeGroup {
+	start: number;
+	end: number;
+}
+
+// Constants of git's indent heuristic (xdiff/xdiffi.c)
+const INDENT_HEURISTIC_MAX_SLIDING = 100;
+const INDENT_MAX = 200;
+const INDENT_MAX_BLANKS = 20;
+const START_OF_FILE_PENALTY = 1;
+const END_OF_FILE_PENALTY = 21;
+const TOTAL_BLANK_WEIGHT = -30;
+const POST_BLANK_WEIGHT = 6;
+const RELATIVE_INDENT_PENALTY = -4;
+const RELATIVE_INDENT_WITH_BLANK_PENALTY = 10;
+const RELATIVE_OUTDENT_PENALTY = 24;
+const RELATIVE_OUTDENT_WITH_BLANK_PENALTY = 17;
+const RELATIVE_DEDENT_PENALTY = 23;
+const RELATIVE_DEDENT_WITH_BLANK_PENALTY = 17;
+const INDENT_WEIGHT = 60;
+
+// Lines only match with the same text and the same newline at the end
+function linesMatch(a: DiffLine, b: DiffLine): boolean {
+	return a.text === b.text && a.noNewline === b.noNewline;
+}
+
+function firstChangeGroup(side: CompactionSide): ChangeGroup {
+	const group = { start: 0, end: 0 };
+	while (side.changed[group.end]) {
+		group.end++;
+	}
+	return group;
+}
+
+// Move to the next group; false at the end of the file
+function nextChangeGroup(side: CompactionSide, group: ChangeGroup): boolean {
+	if (group.end === side.lines.length) {
+		return false;
+	}
+	group.start = group.end + 1;
+	group.end = group.start;
+	while (side.changed[group.end]) {
+		group.end++;
+	}
+	return true;
+}
+
+// Move to the previous group; false at the start of the file
+function previousChangeGroup(side: CompactionSide, group: ChangeGroup): boolean {
+	if (group.start === 0) {
+		return false;
+	}
+	group.end = group.start - 1;
+	group.start = group.end;
+	while (side.changed[group.start - 1]) {
+		group.start--;
+	}
+	return true;
+}
+
+// Shift a group down by a line when the line after it matches its first line, merging it with a group it reaches
+function slideChangeGroupDown(side: CompactionSide, group: ChangeGroup): boolean {
+	if (group.end >= side.lines.length || !linesMatch(side.lines[group.start], side.lines[group.end])) {
+		return false;
+	}
+	side.changed[group.start++] = false;
+	side.changed[group.end++] = true;
+	while (side.changed[group.end]) {
+		group.end++;
+	}
+	return true;
+}
+
+// Shift a group up by a line when the line before it matches its last line, merging it with a group it reaches
+function slideChangeGroupUp(side: CompactionSide, group: ChangeGroup): boolean {
+	if (group.start === 0 || !linesMatch(side.lines[group.start - 1], side.lines[group.end - 1])) {
+		return false;
+	}
+	side.changed[--group.start] = true;
+	side.changed[--group.end] = false;
+	while (side.changed[group.start - 1]) {
+		group.start--;
+	}
+	return true;
+}
+
+// Indentation of a line in columns with 8-column tabs, or -1 for a blank line
+function measureHeuristicIndent(line: DiffLine): number {
+	let indent = 0;
+	for (const char of line.text) {
+		if (!/\s/.test(char)) {
+			return indent;
+		}
+		if (char === ' ') {
+			indent++;
+		} else if (char === '\t') {
+			indent += 8 - indent % 8;
+		}
+		if (indent >= INDENT_MAX) {
+			return INDENT_MAX;
+		}
+	}
+	return -1;
+}
+
+// Badness of splitting a side before the line at split; lower is better
+function scoreSplit(side: CompactionSide, split: number): { effectiveIndent: number; penalty: number } {
+	const endOfFile = split >= side.lines.length;
+	const lineIndent = endOfFile ? -1 : measureHeuristicIndent(side.lines[split]);
+
+	let preBlank = 0;
+	let preIndent = -1;
+	for (let i = split - 1; i >= 0; i--) {
+		preIndent = measureHeuristicIndent(side.lines[i]);
+		if (preIndent !== -1) {
+			break;
+		}
+		if (++preBlank === INDENT_MAX_BLANKS) {
+			preIndent = 0;
+			break;
+		}
+	}
+
+	let postBlank = 0;
+	let postIndent = -1;
+	for (let i = split + 1; i < side.lines.length; i++) {
+		postIndent = measureHeuristicIndent(side.lines[i]);
+		if (postIndent !== -1) {
+			break;
+		}
+		if (++postBlank === INDENT_MAX_BLANKS) {
+			postIndent = 0;
+			break;
+		}
+	}
+
+	let penalty = 0;
+	if (preIndent === -1 && preBlank === 0) {
+		penalty += START_OF_FILE_PENALTY;
+	}
+	if (endOfFile) {
+		penalty += END_OF_FILE_PENALTY;
+	}
+
+	const blankAfter = lineIndent === -1 ? 1 + postBlank : 0;
+	const totalBlank = preBlank + blankAfter;
+	penalty += TOTAL_BLANK_WEIGHT * totalBlank + POST_BLANK_WEIGHT * blankAfter;
+
+	const indent = lineIndent !== -1 ? lineIndent : postIndent;
+	const anyBlanks = totalBlank !== 0;
+	if (indent !== -1 && preIndent !== -1) {
+		if (indent > preIndent) {
+			penalty += anyBlanks ? RELATIVE_INDENT_WITH_BLANK_PENALTY : RELATIVE_INDENT_PENALTY;
+		} else if (indent < preIndent) {
+			if (postIndent !== -1 && postIndent > indent) {
+				penalty += anyBlanks ? RELATIVE_OUTDENT_WITH_BLANK_PENALTY : RELATIVE_OUTDENT_PENALTY;
+			} else {
+				penalty += anyBlanks ? RELATIVE_DEDENT_WITH_BLANK_PENALTY : RELATIVE_DEDENT_PENALTY;
+			}
+		}
+	}
+	return { effectiveIndent: indent, penalty };
+}
+
+// Slide each group of changed lines of a side the way git does: merge it with the groups it can reach,
+// line it up with a change on the other side when it can, otherwise pick the shift the indent heuristic scores best
+function compactChanges(side: CompactionSide, otherSide: CompactionSide): void {
+	const group = firstChangeGroup(side);
+	const otherGroup = firstChangeGroup(otherSide);
+
+	do {
+		if (group.end === group.start) {
+			continue;
+		}
+
+		let groupSize: number;
+		let earliestEnd: number;
+		let endMatchingOther: number;
+		do {
+			groupSize = group.end - group.start;
+			endMatchingOther = -1;
+
+			while (slideChangeGroupUp(side, group)) {
+				previousChangeGroup(otherSide, otherGroup);
+			}
+			earliestEnd = group.end;
+			if (otherGroup.end > otherGroup.start) {
+				endMatchingOther = group.end;
+			}
+
+			while (slideChangeGroupDown(side, group)) {
+				nextChangeGroup(otherSide, otherGroup);
+				if (otherGroup.end > otherGroup.start) {
+					endMatchingOther = group.end;
+				}
+			}
+		} while (groupSize !== group.end - group.start);
+
+		if (group.end === earliestEnd) {
+			continue;
+		}
+		if (endMatchingOther !== -1) {
+			while (otherGroup.end === otherGroup.start) {
+				slideChangeGroupUp(side, group);
+				previousChangeGroup(otherSide, otherGroup);
+			}
+			continue;
+		}
+
+		let bestShift = -1;
+		let bestScore = { effectiveIndent: 0, penalty: 0 };
+		const firstShift = Math.max(earliestEnd, group.end - groupSize - 1, group.end - INDENT_HEURISTIC_MAX_SLIDING);
+		for (let shift = firstShift; shift <= group.end; shift++) {
+			const before = scoreSplit(side, shift);
+			const after = scoreSplit(side, shift - groupSize);
+			const score = {
+				effectiveIndent: before.effectiveIndent + after.effectiveIndent,
+				penalty: before.penalty + after.penalty
+			};
+			const comparison = INDENT_WEIGHT * Math.sign(score.effectiveIndent - bestScore.effectiveIndent) + score.penalty - bestScore.penalty;
+			if (bestShift === -1 || comparison <= 0) {
+				bestScore = score;
+				bestShift = shift;
+			}
+		}
+		while (group.end > bestShift) {
+			slideChangeGroupUp(side, group);
+			previousChangeGroup(otherSide, otherGroup);
+		}
+	} while (nextChangeGroup(side, group) && nextChangeGroup(otherSide, otherGroup));
+}
+
+// Hunk header range; an empty range is numbered after the line it follows, as git does
+function formatHunkRange(start: number, count: number): string {
+	if (count === 1) {
+		return `${start}`;
+	}
+	return `${count === 0 ? start - 1 : start},${count}`;
+}
+
+// Git's default hunk header function name: the closest line above the hunk that starts with a letter, "_" or "$",
+// cut to 80 bytes including its newline and without trailing whitespace
+// Git then ends the name before the first invalid UTF-8, which is a character split by the cut
+// or, since the content is already decoded, a replacement character
+function findHunkFunctionName(oldLines: string[], hunkOldStart: number): string {
+	for (let i = hunkOldStart - 2; i >= 0; i--) {
+		if (/^[A-Za-z_$]/.test(oldLines[i])) {
+			const name = Buffer.from(`${oldLines[i]}\n`).subarray(0, 80).toString('utf8').replace(/[ \t\n\v\f\r]+$/, '');
+			const invalidIndex = name.indexOf('\uFFFD');
+			return invalidIndex < 0 ? name : name.substring(0, invalidIndex);
+		}
+	}
+	return '';
+}
+
+// Unified diff of an added, deleted or modified file, with hunks and headers built like git diff --unified=<contextLines>
 export function generatePreciseUnifiedDiff(
 	oldPath: string,
 	newPath: string,
 	oldContent: string,
 	newContent: string,
-	contextLines: number
+	contextLines: number,
+	kind: FileChangeKind = 'modified',
+	blocks?: SmartContextBlocks,
+	blobHashes?: BlobHashes
 ): string {
 	try {
-		// Handle edge cases
-		if (!oldContent && !newContent) {
-			return '';
-		}
-		
-		// Split into lines
-		const oldLines = oldContent ? oldContent.split('\n') : [];
-		const newLines = newContent ? newContent.split('\n') : [];
-		
-		// Generate diff using jsdiff with enhanced options
-		const diffResult = jsdiff.diffLines(oldContent || '', newContent || '', {
-			ignoreWhitespace: false,
-			newlineIsToken: false
-		});
-		
-		if (!diffResult || diffResult.length === 0) {
+		if (kind === 'modified' && oldContent === newContent) {
 			return '';
 		}
-		
-		// Check if there are actual changes
-		const hasChanges = diffResult.some((part: any) => part.added || part.removed);
-		if (!hasChanges) {
+
+		const lines = diffContentLines(oldContent, newContent);
+		const hunks = generateHunksWithContext(lines, contextLines, blocks);
+		if (kind === 'modified' && hunks.length === 0) {
 			return '';
 		}
-		
-		// Build unified diff format manually for precise control
-		let result = '';
-		result += `diff --git a/${oldPath} b/${newPath}\n`;
-		result += `index 0000000..0000000 100644\n`;
-		result += `--- a/${oldPath}\n`;
-		result += `+++ b/${newPath}\n`;
-		
-		// Generate hunks with proper context
-		const hunks = generateHunksWithContext(diffResult, oldLines, newLines, contextLines);
-		
+
+		const oldLines = splitDiffPartLines(oldContent).map(line => line.replace(/\n$/, ''));
+		const result = formatFileHeaders(oldPath, newPath, oldContent, newContent, kind, hunks.length > 0, blobHashes);
 		for (const hunk of hunks) {
-			result += `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@\n`;
-			result += hunk.lines.join('\n') + '\n';
+			const functionName = findHunkFunctionName(oldLines, hunk.oldStart);
+			result.push(`@@ -${formatHunkRange(hunk.oldStart, hunk.oldLines)} +${formatHunkRange(hunk.newStart, hunk.newLines)} @@${functionName ? ` ${functionName}` : ''}`);
+			for (const line of hunk.lines) {
+				result.push(`${line.type}${line.text}`);
+				if (line.noNewline) {
+					result.push('\\ No newline at end of file');
+				}
+			}
 		}
-		
-		return result.trim();
-		
+		return result.join('\n');
 	} catch (error) {
 		logGitOperation('Error in precise unified diff generation', error);
 		// Fallback to standard generation
-		return generateUnifiedDiff(oldPath, newPath, oldContent, newContent, contextLines);
+		return generateUnifiedDiff(oldPath, newPath, oldContent, newContent, contextLines, blobHashes);
 	}
 }
 
-// Generate hunks with proper context lines
-function generateHunksWithContext(diffResult: any[], oldLines: string[], newLines: string[], contextLines: number): any[] {
-	const hunks: any[] = [];
-	let currentHunk: any = null;
-	let oldLineNum = 1;
-	let newLineNum = 1;
-	
-	for (let i = 0; i < diffResult.length; i++) {
-		const part = diffResult[i];
-		const lines = part.value.split('\n');
-		
-		// Remove empty last line if it exists
-		if (lines[lines.length - 1] === '') {
-			lines.pop();
+// Chunks of a content as counted by git's rename detection: lines, split every 64 bytes,
+// with the CR of CRLF line endings ignored; maps each chunk to its total size in bytes
+function countSimilarityChunks(content: string): Map<string, number> {
+	const chunks = new Map<string, number>();
+	const bytes = Buffer.from(content, 'utf8');
+	let chunk: number[] = [];
+	const addChunk = () => {
+		const key = Buffer.from(chunk).toString('latin1');
+		chunks.set(key, (chunks.get(key) || 0) + chunk.length);
+		chunk = [];
+	};
+	for (let i = 0; i < bytes.length; i++) {
+		if (bytes[i] === 0x0d && bytes[i + 1] === 0x0a) {
+			continue;
 		}
-		
-		if (part.added || part.removed) {
-			// Start new hunk if needed
-			if (!currentHunk) {
-				currentHunk = {
-					oldStart: Math.max(1, oldLineNum - contextLines),
-					newStart: Math.max(1, newLineNum - contextLines),
-					oldLines: 0,
-					newLines: 0,
-					lines: []
-				};
-				
-				// Add context before
-				const contextStart = Math.max(0, oldLineNum - contextLines - 1);
-				const contextEnd = oldLineNum - 1;
-				for (let j = contextStart; j < contextEnd; j++) {
-					if (j < oldLines.length) {
-						currentHunk.lines.push(' ' + oldLines[j]);
-						currentHunk.oldLines++;
-						currentHunk.newLines++;
-					}
-				}
-			}
-			
-			// Add changed lines
-			if (part.removed) {
-				for (const line of lines) {
-					currentHunk.lines.push('-' + line);
-					currentHunk.oldLines++;
-				}
-				oldLineNum += lines.length;
-			}
-			
-			if (part.added) {
-				for (const line of lines) {
-					currentHunk.lines.push('+' + line);
-					currentHunk.newLines++;
-				}
-				newLineNum += lines.length;
+		chunk.push(bytes[i]);
+		if (chunk.length >= 64 || bytes[i] === 0x0a) {
+			addChunk();
+		}
+	}
+	if (chunk.length > 0) {
+		addChunk();
+	}
+	return chunks;
+}
+
+// Similarity index of a renamed or copied file, as in git's "similarity index" header:
+// the bytes of the new content also found in the old content, relative to the larger of the two
+export function calculateSimilarityIndex(oldContent: string, newContent: string): number {
+	const maxSize = Math.max(Buffer.byteLength(oldContent), Buffer.byteLength(newContent));
+	if (maxSize === 0) {
+		return 100;
+	}
+
+	const oldChunks = countSimilarityChunks(oldContent);
+	let copied = 0;
+	for (const [chunk, size] of countSimilarityChunks(newContent)) {
+		copied += Math.min(size, oldChunks.get(chunk) || 0);
+	}
+	// Git scores similarity out of 60000 before converting it to a percentage
+	return Math.floor(Math.floor(copied * 60000 / maxSize) * 100 / 60000);
+}
+
+// Diff of a renamed or copied file: git's rename or copy headers with the similarity index,
+// followed by the changes between the content at the old path and at the new path
+export function generateRenameDiff(
+	oldPath: string,
+	newPath: string,
+	oldContent: string,
+	newContent: string,
+	contextLines: number,
+	copied: boolean = false,
+	blocks?: SmartContextBlocks,
+	blobHashes?: BlobHashes
+): string {
+	const operation = copied ? 'copy' : 'rename';
+	const header = [
+		`diff --git a/${oldPath} b/${newPath}`,
+		`similarity index ${calculateSimilarityIndex(oldContent, newContent)}%`,
+		`${operation} from ${oldPath}`,
+		`${operation} to ${newPath}`
+	];
+
+	// The content diff's own "diff --git" line is replaced by the rename headers
+	const contentDiff = generatePreciseUnifiedDiff(oldPath, newPath, oldContent, newContent, contextLines, 'modified', blocks, blobHashes);
+	return contentDiff ? [...header, ...contentDiff.split('\n').slice(1)].join('\n') : header.join('\n');
+}
+
+// Innermost block containing a line
+function findEnclosingBlock(blocks: ContextBlock[], line: number): ContextBlock | undefined {
+	let enclosing: ContextBlock | undefined;
+	for (const block of blocks) {
+		if (block.startLine <= line && line <= block.endLine &&
+			(!enclosing || block.endLine - block.startLine < enclosing.endLine - enclosing.startLine)) {
+			enclosing = block;
+		}
+	}
+	return enclosing;
+}
+
+// Group changed lines into hunks with contextLines of context on each side
+// Changes separated by at most twice the context share a hunk, as in git
+// With smart context blocks, each change's context also covers its enclosing block on the side it belongs to
+function generateHunksWithContext(lines: DiffLine[], contextLines: number, blocks?: SmartContextBlocks): DiffHunk[] {
+	// Index in lines of each line of the old and of the new content, and the line number of each change on its side
+	const oldIndexes: number[] = [];
+	const newIndexes: number[] = [];
+	const changeLineNumbers: number[] = [];
+	lines.forEach((line, index) => {
+		changeLineNumbers[index] = line.type === '-' ? oldIndexes.length : newIndexes.length;
+		if (line.type !== '+') {
+			oldIndexes.push(index);
+		}
+		if (line.type !== '-') {
+			newIndexes.push(index);
+		}
+	});
+
+	// Lines that each change needs to be shown with
+	const ranges: { start: number; end: number }[] = [];
+	lines.forEach((line, index) => {
+		if (line.type === ' ') {
+			return;
+		}
+		let start = Math.max(index - contextLines, 0);
+		let end = Math.min(index + contextLines, lines.length - 1);
+		if (blocks) {
+			const sideIndexes = line.type === '-' ? oldIndexes : newIndexes;
+			const block = findEnclosingBlock(line.type === '-' ? blocks.oldBlocks : blocks.newBlocks, changeLineNumbers[index]);
+			if (block && block.endLine < sideIndexes.length) {
+				start = Math.min(start, sideIndexes[block.startLine]);
+				end = Math.max(end, sideIndexes[block.endLine]);
 			}
-			
+		}
+		ranges.push({ start, end });
+	});
+
+	// Overlapping or adjacent ranges share a hunk
+	const merged: { start: number; end: number }[] = [];
+	for (const range of ranges.sort((a, b) => a.start - b.start)) {
+		const last = merged[merged.length - 1];
+		if (last && range.start <= last.end + 1) {
+			last.end = Math.max(last.end, range.end);
 		} else {
-			// Unchanged lines
-			if (currentHunk) {
-				// Add context after and close hunk
-				const contextStart = newLineNum;
-				const contextEnd = Math.min(newLines.length, newLineNum + contextLines);
-				for (let j = contextStart - 1; j < contextEnd - 1; j++) {
-					if (j < newLines.length) {
-						currentHunk.lines.push(' ' + newLines[j]);
-						currentHunk.oldLines++;
-						currentHunk.newLines++;
-					}
-				}
-				
-				hunks.push(currentHunk);
-				currentHunk = null;
-			}
-			
-			oldLineNum += lines.length;
-			newLineNum += lines.length;
+			merged.push({ ...range });
 		}
 	}
-	
-	// Close final hunk if needed
-	if (currentHunk) {
-		hunks.push(currentHunk);
-	}
-	
-	return hunks;
+
+	return merged.map(({ start, end }) => {
+		const linesBefore = lines.slice(0, start);
+		const hunkLines = lines.slice(start, end + 1);
+		return {
+			oldStart: linesBefore.filter(line => line.type !== '+').length + 1,
+			oldLines: hunkLines.filter(line => line.type !== '+').length,
+			newStart: linesBefore.filter(line => line.type !== '-').length + 1,
+			newLines: hunkLines.filter(line => line.type !== '-').length,
+			lines: hunkLines
+		};
+	});
 }
 
 // Show git diff from specific commit in a new document for preview - uses VS Code Git API only
-export async function showDiffPreviewFromCommit(workspacePath: string, commitHash: string, contextLines: number = 50, excludeDeletes: boolean = true, fileExtensions: string = ''): Promise<void> {
+// The review configuration applies the same exclusions and smart context as a review of the commit
+export async function showDiffPreviewFromCommit(repositoryPath: string, commitHash: string, contextLines: number = 50, excludeDeletes: boolean = true, fileExtensions: string = '', config?: ReviewConfig): Promise<void> {
 	try {
 		logGitOperation('showDiffPreviewFromCommit: Starting with parameters', {
-			workspacePath,
+			repositoryPath,
 			commitHash: commitHash.substring(0, 8),
 			contextLines,
 			excludeDeletes,
-			fileExtensions
+			fileExtensions,
+			smartContext: !!config?.smartContext
 		});
 
 		// Generate unified diff using precise VS Code Git API-based method for git show compatibility
-		const diffResult = await generateNativeGitDiff(workspacePath, commitHash, contextLines, excludeDeletes, fileExtensions);
+		const diffResult = await generateNativeGitDiff(repositoryPath, commitHash, contextLines, excludeDeletes, fileExtensions, config);
 		const diff = diffResult.diff;
-		const shortHash = commitHash.substring(0, 8);
 		
 		const filterInfo = fileExtensions ? `\nFile Extensions Filter: ${fileExtensions}` : '';
 		
 		const previewContent = `# Git Diff Preview
 
-**Comparison:** Current HEAD vs Commit ${shortHash}  
+**Comparison:** ${describeComparison(commitHash)}  
 **Context Lines (git diff -U${contextLines}):** ${contextLines}  
-**Options:** ${excludeDeletes ? 'Exclude deleted files' : 'Include all changes'}${filterInfo}  
+**Options:** ${excludeDeletes ? 'Exclude deleted files' : 'Include all changes'}${config?.smartContext ? ', smart context' : ''}${filterInfo}  
 **Generated at:** ${new Date().toLocaleString()}
 
 ---
@@ -2,6 +2,7 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import { ExportData, ExportHistoryItem, ReviewConfig, ReviewResult } from './types';
+import { groupFindingsByCategory, summarizeFindings } from './findingsService';
 
 export class ExportService {
     private config: ReviewConfig;
@@ -34,7 +35,7 @@ export class ExportService {
                 await this.saveToCustomFile(customFilePath, html);
             } else {
                 filename = this.generateFilename('html');
-                filePath = await this.saveToFile(filename, html);
+                filePath = await this.saveToFile(filename, html, gitInfo?.repositoryPath);
             }
 
             await this.addToExportHistory('html', filename, filePath, html.length);
@@ -52,6 +53,45 @@ export class ExportService {
         }
     }
 
+    // Export review results to JSON format
+    async exportToJson(
+        reviewResult: ReviewResult,
+        gitInfo: any,
+        diffConfig: any,
+        statistics: any,
+        customFilePath?: string
+    ): Promise<{ success: boolean; message: string; filePath?: string }> {
+        try {
+            const exportData = this.buildExportData(reviewResult, gitInfo, diffConfig, statistics, 'json');
+            const json = JSON.stringify(exportData, null, 2);
+            
+            let filePath: string;
+            let filename: string;
+            
+            if (customFilePath) {
+                filePath = customFilePath;
+                filename = path.basename(customFilePath);
+                await this.saveToCustomFile(customFilePath, json);
+            } else {
+                filename = this.generateFilename('json');
+                filePath = await this.saveToFile(filename, json, gitInfo?.repositoryPath);
+            }
+
+            await this.addToExportHistory('json', filename, filePath, json.length);
+
+            return {
+                success: true,
+                message: `JSONファイルにエクスポートしました: ${filename}`,
+                filePath
+            };
+        } catch (error) {
+            return {
+                success: false,
+                message: `JSONエクスポートに失敗しました: ${error}`
+            };
+        }
+    }
+
     // Build the complete export data structure
     private buildExportData(
         reviewResult: ReviewResult,
@@ -74,11 +114,12 @@ export class ExportService {
                 provider: this.config.llmProvider,
                 systemPrompt: reviewResult.systemPrompt || this.config.systemPrompt,
                 reviewPerspective: reviewResult.reviewPerspective || this.config.reviewPerspective,
-                reviewDuration: 0, // TODO: Track actual duration
-                tokenUsage: {
-                    input: 0, // TODO: Get from AI service
-                    output: 0
-                }
+                reviewDuration: reviewResult.durationMs || 0,
+                tokenUsage: reviewResult.usage ? {
+                    input: reviewResult.usage.inputTokens,
+                    output: reviewResult.usage.outputTokens
+                } : undefined,
+                stopReason: reviewResult.stopReason
             },
             diffConfiguration: {
                 contextLines: this.config.contextLines,
@@ -100,8 +141,8 @@ export class ExportService {
                 changedFiles: gitInfo?.changedFiles || []
             },
             reviewContent: {
-                summary: this.parseReviewSummary(reviewResult.review),
-                categories: this.parseReviewCategories(reviewResult.review),
+                summary: reviewResult.findings ? summarizeFindings(reviewResult.findings) : this.parseReviewSummary(reviewResult.review),
+                categories: reviewResult.findings ? groupFindingsByCategory(reviewResult.findings) : this.parseReviewCategories(reviewResult.review),
                 fullReview: reviewResult.review,
                 rawReview: reviewResult.review
             },
@@ -128,6 +169,11 @@ export class ExportService {
             .replace('{{author}}', exportData.gitInformation.author)
             .replace('{{modelName}}', exportData.reviewMetadata.modelName)
             .replace('{{provider}}', exportData.reviewMetadata.provider)
+            .replace('{{reviewDuration}}', `${(exportData.reviewMetadata.reviewDuration / 1000).toFixed(1)}s`)
+            .replace('{{tokenUsage}}', exportData.reviewMetadata.tokenUsage
+                ? `${exportData.reviewMetadata.tokenUsage.input.toLocaleString()} / ${exportData.reviewMetadata.tokenUsage.output.toLocaleString()}`
+                : 'N/A')
+            .replace('{{stopReason}}', this.escapeHtml(exportData.reviewMetadata.stopReason || 'N/A'))
             .replace('{{filesAnalyzed}}', exportData.statistics.filesAnalyzed.toString())
             .replace('{{filesExcluded}}', exportData.statistics.filesExcluded.toString())
             .replace('{{reviewContentRaw}}', this.escapeHtml(exportData.reviewContent.fullReview))
@@ -423,6 +469,18 @@ export class ExportService {
                         <h3>Model Name</h3>
                         <p>{{modelName}}</p>
                     </div>
+                    <div class="info-card">
+                        <h3>Review Duration</h3>
+                        <p>{{reviewDuration}}</p>
+                    </div>
+                    <div class="info-card">
+                        <h3>Tokens (Input / Output)</h3>
+                        <p>{{tokenUsage}}</p>
+                    </div>
+                    <div class="info-card">
+                        <h3>Stop Reason</h3>
+                        <p>{{stopReason}}</p>
+                    </div>
                 </div>
             </section>
 
@@ -504,14 +562,15 @@ export class ExportService {
     }
 
     // Save content to file
-    private async saveToFile(filename: string, content: string): Promise<string> {
-        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-        if (!workspaceFolder) {
+    // A relative export directory is resolved against the reviewed repository
+    private async saveToFile(filename: string, content: string, repositoryPath?: string): Promise<string> {
+        const rootPath = repositoryPath || vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+        if (!rootPath) {
             throw new Error('No workspace folder found');
         }
 
         const exportDir = this.config.exportDirectory.startsWith('.') 
-            ? path.join(workspaceFolder.uri.fsPath, this.config.exportDirectory)
+            ? path.join(rootPath, this.config.exportDirectory)
             : this.config.exportDirectory;
 
         // Ensure export directory exists
@@ -1,14 +1,29 @@
 import * as vscode from 'vscode';
-import * as path from 'path';
 import { SettingsViewProvider } from './settingsViewProvider';
-import { getConfiguration, validateConfiguration, getAvailableVSCodeLMFamilies } from './configService';
-import { isGitRepository, refreshGitAPI, getGitRepository } from './gitService';
+import { getConfiguration, validateConfiguration, getAvailableVSCodeLMFamilies, getAvailableOllamaModels } from './configService';
+import {
+	describeRepositoryPath,
+	getGitInformation,
+	getRepositoryPaths,
+	getReviewContext,
+	getSelectedRepositoryPath,
+	isUncommittedTarget,
+	refreshGitAPI,
+	setSelectedRepositoryPath
+} from './gitService';
 import { generateNativeGitDiff, showDiffPreviewFromCommit } from './diffService';
-import { reviewWithLLM, showReviewResults } from './reviewService';
+import { buildReviewRequestPrompts, confirmReviewEstimate, estimateReview, needsChunkedReview, ReviewDocumentWriter, reviewWithLLM, reviewWithLLMInChunks, showReviewResults } from './reviewService';
 import { logGitOperation, disposeLogger } from './logger';
 import { FavoritePromptsService } from './favoritePromptsService';
 import { ExportService } from './exportService';
 import { FileFilterService } from './fileFilterService';
+import { getProvider, registerProvider } from './providers/providerRegistry';
+import { clearReviewDiagnostics, createReviewDiagnostics } from './diagnosticsService';
+import { createReviewComments } from './commentsService';
+import { registerSuggestionActions } from './suggestionService';
+import { registerChatParticipant } from './chatService';
+import { registerReviewTool } from './reviewToolService';
+import { buildCommitByCommitPrompts, prepareCommitByCommitReview, reviewCommitByCommit } from './commitReviewService';
 
 export function activate(context: vscode.ExtensionContext) {
 	console.log('DiffLens extension is now active!');
@@ -34,6 +49,11 @@ export function activate(context: vscode.ExtensionContext) {
 		return await getAvailableVSCodeLMFamilies();
 	});
 
+	// Register Ollama models command
+	const getOllamaModelsCommand = vscode.commands.registerCommand('diff-lens.getOllamaModels', async (baseUrl?: string) => {
+		return await getAvailableOllamaModels(baseUrl);
+	});
+
 	// Register Git repository refresh command
 	const refreshGitRepoCommand = vscode.commands.registerCommand('diff-lens.refreshGitRepo', async () => {
 		logGitOperation('Manual Git repository refresh requested');
@@ -48,29 +68,14 @@ export function activate(context: vscode.ExtensionContext) {
 	});
 
 	// Register code review command
-	const reviewCommand = vscode.commands.registerCommand('diff-lens.reviewCode', async (selectedCommit?: string, customPrompts?: {systemPrompt: string, reviewPerspective: string}) => {
-		await runCodeReview(selectedCommit, customPrompts);
+	const reviewCommand = vscode.commands.registerCommand('diff-lens.reviewCode', async (selectedCommit?: string, customPrompts?: {systemPrompt: string, reviewPerspective: string}, commitByCommit?: boolean) => {
+		await runCodeReview(selectedCommit, customPrompts, commitByCommit);
 	});
 
 	// Register diff preview command
 	const previewCommand = vscode.commands.registerCommand('diff-lens.previewDiff', async (selectedCommit?: string) => {
-		const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-		if (!workspaceFolder) {
-			vscode.window.showErrorMessage('No workspace folder found. Please open a folder containing a git repository.');
-			return;
-		}
-
-		const workspacePath = workspaceFolder.uri.fsPath;
-
-		// Check if it's a git repository - try with cache first, then force refresh if needed
-		let isRepo = await isGitRepository(workspacePath);
-		if (!isRepo) {
-			logGitOperation('Repository check failed with cache, trying force refresh');
-			isRepo = await isGitRepository(workspacePath, true);
-		}
-		
-		if (!isRepo) {
-			vscode.window.showErrorMessage('Current workspace is not a git repository.');
+		const repositoryPath = await resolveRepositoryPath();
+		if (!repositoryPath) {
 			return;
 		}
 
@@ -80,7 +85,12 @@ export function activate(context: vscode.ExtensionContext) {
 
 		const config = getConfiguration();
 		console.log('Preview diff with contextLines:', config.contextLines, 'excludeDeletes:', config.excludeDeletes, 'fileExtensions:', config.fileExtensions); // Debug log
-		await showDiffPreviewFromCommit(workspacePath, selectedCommit, config.contextLines, config.excludeDeletes, config.fileExtensions);
+		await showDiffPreviewFromCommit(repositoryPath, selectedCommit, config.contextLines, config.excludeDeletes, config.fileExtensions, config);
+	});
+
+	// Register repository picker command
+	const selectRepositoryCommand = vscode.commands.registerCommand('diff-lens.selectRepository', async () => {
+		await selectRepository();
 	});
 
 	// Register settings command
@@ -113,40 +123,86 @@ export function activate(context: vscode.ExtensionContext) {
 		await showExcludedFiles(exclusionSummary);
 	});
 
+	// Register review findings diagnostics
+	const clearReviewFindingsCommand = vscode.commands.registerCommand('diff-lens.clearReviewFindings', () => {
+		clearReviewDiagnostics();
+	});
+
 	context.subscriptions.push(
+		createReviewDiagnostics(),
+		createReviewComments(context),
+		registerSuggestionActions(),
+		registerChatParticipant(context),
+		registerReviewTool(),
 		reviewCommand, 
 		previewCommand, 
+		selectRepositoryCommand,
 		settingsCommand, 
 		toggleSettingsCommand, 
 		getVSCodeFamiliesCommand, 
+		getOllamaModelsCommand,
 		refreshGitRepoCommand,
 		saveFavoritePromptCommand,
 		manageFavoritePromptsCommand,
 		exportReviewCommand,
-		showExcludedFilesCommand
+		showExcludedFilesCommand,
+		clearReviewFindingsCommand
 	);
+
+	// Public API so other extensions can contribute LLM providers
+	return {
+		registerProvider
+	};
 }
 
-async function runCodeReview(selectedCommit?: string, customPrompts?: {systemPrompt: string, reviewPerspective: string}) {
-	try {
-		// Get current workspace folder
-		const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-		if (!workspaceFolder) {
-			vscode.window.showErrorMessage('No workspace folder found. Please open a folder containing a git repository.');
-			return;
-		}
+// Root path of the repository that commands act on, showing an error when there is none
+async function resolveRepositoryPath(): Promise<string | undefined> {
+	if (!vscode.workspace.workspaceFolders?.length) {
+		vscode.window.showErrorMessage('No workspace folder found. Please open a folder containing a git repository.');
+		return undefined;
+	}
 
-		const workspacePath = workspaceFolder.uri.fsPath;
+	// Try with cache first, then force refresh if needed
+	let repositoryPath = await getSelectedRepositoryPath();
+	if (!repositoryPath) {
+		logGitOperation('Repository lookup failed with cache, trying force refresh');
+		repositoryPath = await getSelectedRepositoryPath(true);
+	}
 
-		// Check if it's a git repository - try with cache first, then force refresh if needed
-		let isRepo = await isGitRepository(workspacePath);
-		if (!isRepo) {
-			logGitOperation('Repository check failed with cache, trying force refresh');
-			isRepo = await isGitRepository(workspacePath, true);
-		}
-		
-		if (!isRepo) {
-			vscode.window.showErrorMessage('Current workspace is not a git repository.');
+	if (!repositoryPath) {
+		vscode.window.showErrorMessage('Current workspace is not a git repository.');
+	}
+	return repositoryPath;
+}
+
+// Pick the repository to review from those opened by the Git extension, including submodules
+async function selectRepository() {
+	const repositoryPaths = await getRepositoryPaths(true);
+	if (repositoryPaths.length === 0) {
+		vscode.window.showErrorMessage('Current workspace is not a git repository.');
+		return;
+	}
+
+	const selectedPath = await getSelectedRepositoryPath();
+	const items = repositoryPaths.map(repositoryPath => ({
+		label: describeRepositoryPath(repositoryPath, repositoryPaths),
+		description: repositoryPath === selectedPath ? '選択中' : undefined,
+		detail: repositoryPath,
+		repositoryPath
+	}));
+	const selected = await vscode.window.showQuickPick(items, {
+		placeHolder: 'レビューするリポジトリを選択してください'
+	});
+	if (selected) {
+		setSelectedRepositoryPath(selected.repositoryPath);
+	}
+}
+
+async function runCodeReview(selectedCommit?: string, customPrompts?: {systemPrompt: string, reviewPerspective: string}, commitByCommit: boolean = false) {
+	try {
+		// Get the repository to review
+		const repositoryPath = await resolveRepositoryPath();
+		if (!repositoryPath) {
 			return;
 		}
 
@@ -162,6 +218,7 @@ async function runCodeReview(selectedCommit?: string, customPrompts?: {systemPro
 		console.log('Current contextLines setting:', config.contextLines, 'excludeDeletes:', config.excludeDeletes, 'fileExtensions:', config.fileExtensions); // Debug log
 		logGitOperation('runCodeReview: Configuration loaded', {
 			contextLines: config.contextLines,
+			smartContext: config.smartContext,
 			excludeDeletes: config.excludeDeletes,
 			fileExtensions: config.fileExtensions,
 			hasSystemPrompt: !!config.systemPrompt,
@@ -174,33 +231,96 @@ async function runCodeReview(selectedCommit?: string, customPrompts?: {systemPro
 			return;
 		}
 
-		// Show progress
-		await vscode.window.withProgress({
+		// Show progress; the results are shown once the progress notification has closed
+		const review = await vscode.window.withProgress({
 			location: vscode.ProgressLocation.Notification,
-			title: `Reviewing code with ${config.llmProvider === 'bedrock' ? 'AWS Bedrock' : 'VS Code LM'}`,
-			cancellable: false
-		}, async (progress) => {
+			title: `Reviewing code with ${getProvider(config.llmProvider)?.displayName || config.llmProvider}`,
+			cancellable: true
+		}, async (progress, token) => {
 			progress.report({ increment: 0, message: 'Getting git diff...' });
 
 			// Get git diff using VS Code Git API only (no native git commands)
-			const diffResult = await generateNativeGitDiff(workspacePath, selectedCommit || null, config.contextLines, config.excludeDeletes, config.fileExtensions, config);
+			const diffResult = await generateNativeGitDiff(repositoryPath, selectedCommit || null, config.contextLines, config.excludeDeletes, config.fileExtensions, config, token);
 			const diff = diffResult.diff;
+
+			// Commit messages, branch and linked issues let the model check the changes against their intent
+			const reviewContext = config.includeCommitContext ? await getReviewContext(repositoryPath, selectedCommit || null) : undefined;
+
+			// A commit-by-commit review sends one review per commit, each with its own diff
+			if (commitByCommit && !isUncommittedTarget(selectedCommit)) {
+				progress.report({ message: 'Getting the diff of each commit...' });
+			}
+			const commitReviews = commitByCommit && !isUncommittedTarget(selectedCommit)
+				? await prepareCommitByCommitReview(repositoryPath, selectedCommit || null, config, token)
+				: undefined;
+
+			// The prompts that will be sent, kept for follow-up questions on the review
+			const prompts = commitReviews
+				? buildCommitByCommitPrompts(commitReviews, config)
+				: buildReviewRequestPrompts(diff, config, reviewContext);
+
+			// Ask before sending requests larger than the configured threshold
+			if (config.confirmTokenThreshold > 0) {
+				progress.report({ message: 'Estimating tokens...' });
+				const estimate = await estimateReview(prompts, config, token);
+				if (estimate.inputTokens > config.confirmTokenThreshold && !(await confirmReviewEstimate(estimate))) {
+					throw new vscode.CancellationError();
+				}
+			}
 			
 			progress.report({ increment: 50, message: `Sending to ${config.llmProvider.toUpperCase()} for review...` });
 
-			// Send to LLM for review
-			const reviewResult = await reviewWithLLM(diff, config);
+			// Send to LLM for review, streaming the reply into the results document
+			const resultsDocument = await ReviewDocumentWriter.open(diffResult.exclusionSummary);
+			let reviewResult;
+			let reviewedDiff = diff;
+			try {
+				if (commitReviews) {
+					// Review each commit of the range separately, one report section per commit
+					({ reviewResult, diff: reviewedDiff } = await reviewCommitByCommit(commitReviews, config, resultsDocument, (completed, total, commit) => {
+						progress.report({
+							increment: 40 / total,
+							message: `Reviewing commit ${completed + 1} of ${total} (${commit.hash.substring(0, 8)})...`
+						});
+					}, token));
+				} else if (needsChunkedReview(diff, config)) {
+					// Diff exceeds the per-request budget: review each chunk, then merge the findings
+					reviewResult = await reviewWithLLMInChunks(diff, config, (completed, total) => {
+						progress.report({
+							increment: 40 / (total + 1),
+							message: completed < total
+								? `Reviewing part ${completed + 1} of ${total}...`
+								: `Merging findings from ${total} parts...`
+						});
+					}, fragment => resultsDocument.append(fragment), token, reviewContext);
+				} else {
+					reviewResult = await reviewWithLLM(diff, config, fragment => resultsDocument.append(fragment), token, reviewContext);
+				}
+			} catch (error) {
+				if (error instanceof vscode.CancellationError) {
+					await resultsDocument.cancel();
+				} else {
+					await resultsDocument.fail(error);
+				}
+				throw error;
+			}
 			
 			progress.report({ increment: 100, message: 'Review complete!' });
 
 			// Get Git information for export
-			const gitInfo = await getGitInformation(workspacePath, selectedCommit);
-			
-			// Show results
-			await showReviewResults(reviewResult, gitInfo, diffResult.exclusionSummary, diff);
+			const gitInfo = await getGitInformation(repositoryPath, selectedCommit);
+			return { reviewResult, gitInfo, exclusionSummary: diffResult.exclusionSummary, reviewedDiff, resultsDocument, prompts };
 		});
 
+		// Show results
+		await showReviewResults(review.reviewResult, review.gitInfo, review.exclusionSummary, review.reviewedDiff, review.resultsDocument, config, review.prompts);
+
 	} catch (error) {
+		// A cancelled review stores nothing, so the previous result stays available for export
+		if (error instanceof vscode.CancellationError) {
+			vscode.window.showInformationMessage('コードレビューをキャンセルしました。');
+			return;
+		}
 		vscode.window.showErrorMessage(`Error during code review: ${error}`);
 	}
 }
@@ -327,7 +447,9 @@ async function exportReview(reviewResult: any, gitInfo: any) {
 	const config = getConfiguration();
 	const exportService = new ExportService(config);
 
-	const format = { label: 'HTML', value: 'html' }; // JSONエクスポートは削除されたためHTMLのみ
+	const format = config.defaultExportFormat === 'json'
+		? { label: 'JSON', value: 'json' }
+		: { label: 'HTML', value: 'html' };
 
 	if (!format) {
 		return;
@@ -355,8 +477,7 @@ async function exportReview(reviewResult: any, gitInfo: any) {
 		if (format.value === 'html') {
 			result = await exportService.exportToHtml(reviewResult, gitInfo, diffConfig, {}, diffText, saveUri.fsPath);
 		} else {
-			vscode.window.showErrorMessage('JSONエクスポートは現在サポートされていません。');
-			return;
+			result = await exportService.exportToJson(reviewResult, gitInfo, diffConfig, {}, saveUri.fsPath);
 		}
 
 		if (result.success) {
@@ -401,83 +522,6 @@ async function showExcludedFiles(exclusionSummary: any) {
 	await vscode.window.showTextDocument(doc);
 }
 
-// Get Git information for export
-async function getGitInformation(workspacePath: string, selectedCommit?: string): Promise<any> {
-	try {
-		const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-		if (!workspaceFolder) {
-			return {
-				repository: 'Unknown',
-				currentBranch: 'Unknown',
-				commitHash: 'Unknown',
-				commitMessage: 'Unknown',
-				author: 'Unknown',
-				commitDate: new Date().toISOString(),
-				selectedCommit: selectedCommit || null
-			};
-		}
-
-		const repository = await getGitRepository(workspaceFolder);
-		if (!repository) {
-			return {
-				repository: path.basename(workspacePath),
-				currentBranch: 'Unknown',
-				commitHash: 'Unknown',
-				commitMessage: 'Unknown',
-				author: 'Unknown',
-				commitDate: new Date().toISOString(),
-				selectedCommit: selectedCommit || null
-			};
-		}
-
-		// Get repository name
-		const repoName = path.basename(repository.rootUri.fsPath);
-
-		// Get current branch
-		const currentBranch = repository.state.HEAD?.name || 'Unknown';
-
-		// Get commit information
-		let commitHash = 'Unknown';
-		let commitMessage = 'Unknown';
-		let author = 'Unknown';
-		let commitDate = new Date().toISOString();
-
-		try {
-			const targetCommit = selectedCommit || repository.state.HEAD?.commit;
-			if (targetCommit) {
-				const commit = await repository.getCommit(targetCommit);
-				commitHash = commit.hash;
-				commitMessage = commit.message.split('\n')[0]; // First line only
-				author = commit.authorName || 'Unknown';
-				commitDate = commit.authorDate?.toISOString() || new Date().toISOString();
-			}
-		} catch (error) {
-			console.log('Failed to get commit information:', error);
-		}
-
-		return {
-			repository: repoName,
-			currentBranch: currentBranch,
-			commitHash: commitHash,
-			commitMessage: commitMessage,
-			author: author,
-			commitDate: commitDate,
-			selectedCommit: selectedCommit || null
-		};
-	} catch (error) {
-		console.log('Failed to get Git information:', error);
-		return {
-			repository: path.basename(workspacePath),
-			currentBranch: 'Unknown',
-			commitHash: 'Unknown',
-			commitMessage: 'Unknown',
-			author: 'Unknown',
-			commitDate: new Date().toISOString(),
-			selectedCommit: selectedCommit || null
-		};
-	}
-}
-
 // This method is called when your extension is deactivated
 export function deactivate() {
 	disposeLogger();
@@ -14,6 +14,12 @@ export class FavoritePromptsService {
         return prompts.sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime());
     }
 
+    // Find a favorite prompt by name, ignoring case
+    static findFavoritePromptByName(name: string): FavoritePrompt | undefined {
+        const normalized = name.trim().toLowerCase();
+        return this.getFavoritePrompts().find(prompt => prompt.name.trim().toLowerCase() === normalized);
+    }
+
     // Save a new favorite prompt
     static async saveFavoritePrompt(
         name: string,
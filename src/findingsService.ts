@@ -0,0 +1,253 @@
+import { ExportData, FindingSeverity, ReviewFinding } from './types';
+
+// Structured review output: schema, validation/repair of model JSON, and summaries for export
+
+export const FINDING_SEVERITIES: FindingSeverity[] = ['critical', 'major', 'minor', 'suggestion'];
+
+// JSON schema the model is asked to follow in structured output mode
+export const FINDINGS_SCHEMA = {
+	type: 'object',
+	required: ['findings'],
+	properties: {
+		findings: {
+			type: 'array',
+			items: {
+				type: 'object',
+				required: ['file', 'line', 'severity', 'category', 'title', 'description', 'suggestion'],
+				properties: {
+					file: { type: 'string', description: 'Path of the file as it appears in the diff' },
+					line: { type: 'integer', minimum: 0, description: 'Line number in the new version of the file, 0 if not line specific' },
+					severity: { type: 'string', enum: FINDING_SEVERITIES },
+					category: { type: 'string', description: 'e.g. Security, Performance, Correctness, Maintainability' },
+					title: { type: 'string' },
+					description: { type: 'string' },
+					suggestion: { type: 'string' }
+				}
+			}
+		}
+	}
+};
+
+// Instructions appended to the review prompt in structured output mode
+export function buildFindingsInstructions(): string {
+	return `Respond only with a JSON object that matches the following JSON schema, without markdown code fences or any other text:
+
+${JSON.stringify(FINDINGS_SCHEMA, null, 2)}
+
+Report each issue as a separate finding. Return {"findings": []} if there is nothing to report.`;
+}
+
+// Prompt asking the model to correct a response that failed validation
+export function buildFindingsRepairPrompt(previousResponse: string, errors: string[]): string {
+	return `Your previous response could not be used because it is not valid JSON matching the required schema.
+
+Problems:
+${errors.map(error => `- ${error}`).join('\n')}
+
+Previous response:
+${previousResponse}
+
+${buildFindingsInstructions()}`;
+}
+
+// Extract the JSON value from a model response that may wrap it in code fences or prose
+function extractJson(text: string): string {
+	let json = text.trim();
+
+	// Strip markdown code fences around the whole response; fences inside it may belong to a string value
+	if (json.startsWith('```')) {
+		json = json.replace(/^```[\w-]*\s*/, '').replace(/\s*```$/, '');
+	}
+
+	// Drop any prose before or after the outermost object or array
+	const start = json.search(/[{[]/);
+	const end = Math.max(json.lastIndexOf('}'), json.lastIndexOf(']'));
+	if (start !== -1 && end > start) {
+		json = json.substring(start, end + 1);
+	}
+	return json;
+}
+
+// Remove commas directly before a closing bracket, leaving the contents of strings untouched
+function removeTrailingCommas(json: string): string {
+	let result = '';
+	let inString = false;
+	for (let i = 0; i < json.length; i++) {
+		const char = json[i];
+		if (inString) {
+			result += char;
+			if (char === '\\') {
+				result += json[++i] ?? '';
+			} else if (char === '"') {
+				inString = false;
+			}
+			continue;
+		}
+		if (char === ',') {
+			let next = i + 1;
+			while (next < json.length && /\s/.test(json[next])) {
+				next++;
+			}
+			if (json[next] === '}' || json[next] === ']') {
+				continue;
+			}
+		}
+		inString = char === '"';
+		result += char;
+	}
+	return result;
+}
+
+// Parse JSON from a model response: the response as is when it is valid JSON,
+// otherwise without code fences and surrounding prose, and finally without trailing commas
+export function parseModelJson(text: string): any {
+	try {
+		return JSON.parse(text);
+	} catch {
+		// Cleaned up below
+	}
+
+	const json = extractJson(text);
+	try {
+		return JSON.parse(json);
+	} catch (error) {
+		return JSON.parse(removeTrailingCommas(json));
+	}
+}
+
+// Validate one finding, returning the normalized finding or the problems found
+function validateFinding(item: any, index: number): { finding?: ReviewFinding; errors: string[] } {
+	const errors: string[] = [];
+	if (!item || typeof item !== 'object') {
+		return { errors: [`findings[${index}] is not an object`] };
+	}
+
+	for (const field of ['file', 'category', 'title', 'description', 'suggestion']) {
+		if (typeof item[field] !== 'string') {
+			errors.push(`findings[${index}].${field} must be a string`);
+		}
+	}
+
+	const line = typeof item.line === 'string' ? parseInt(item.line, 10) : item.line;
+	if (typeof line !== 'number' || !Number.isInteger(line) || line < 0) {
+		errors.push(`findings[${index}].line must be a non-negative integer`);
+	}
+
+	const severity = typeof item.severity === 'string' ? item.severity.toLowerCase() : item.severity;
+	if (!FINDING_SEVERITIES.includes(severity)) {
+		errors.push(`findings[${index}].severity must be one of ${FINDING_SEVERITIES.join(', ')}`);
+	}
+
+	if (errors.length > 0) {
+		return { errors };
+	}
+	return {
+		finding: {
+			file: item.file,
+			line,
+			severity,
+			category: item.category,
+			title: item.title,
+			description: item.description,
+			suggestion: item.suggestion
+		},
+		errors
+	};
+}
+
+// Parse and validate a structured review response
+// Returns the findings, or the list of problems to send back to the model
+export function parseFindings(text: string): { findings?: ReviewFinding[]; errors: string[] } {
+	let data: any;
+	try {
+		data = parseModelJson(text);
+	} catch (error) {
+		return { errors: [`Response is not valid JSON: ${error}`] };
+	}
+
+	const items = Array.isArray(data) ? data : data?.findings;
+	if (!Array.isArray(items)) {
+		return { errors: ['Response must be an object with a "findings" array'] };
+	}
+
+	const findings: ReviewFinding[] = [];
+	const errors: string[] = [];
+	items.forEach((item, index) => {
+		const result = validateFinding(item, index);
+		if (result.finding) {
+			findings.push(result.finding);
+		}
+		errors.push(...result.errors);
+	});
+
+	return errors.length > 0 ? { errors } : { findings, errors };
+}
+
+// Render findings as the markdown shown in the results document
+export function formatFindingsAsMarkdown(findings: ReviewFinding[]): string {
+	if (findings.length === 0) {
+		return 'No issues found.\n';
+	}
+
+	const sections: string[] = [];
+	for (const severity of FINDING_SEVERITIES) {
+		const matching = findings.filter(finding => finding.severity === severity);
+		if (matching.length === 0) {
+			continue;
+		}
+
+		const heading = severity.charAt(0).toUpperCase() + severity.slice(1);
+		sections.push(`## ${heading} (${matching.length})\n\n` + matching.map(finding => {
+			const location = finding.line > 0 ? `${finding.file}:${finding.line}` : finding.file;
+			return `### ${finding.title}\n\n**Location:** \`${location}\`  \n**Category:** ${finding.category}\n\n${finding.description}\n\n**Suggestion:** ${finding.suggestion}`;
+		}).join('\n\n'));
+	}
+
+	return sections.join('\n\n') + '\n';
+}
+
+// Summary counts for the export
+export function summarizeFindings(findings: ReviewFinding[]): ExportData['reviewContent']['summary'] {
+	const count = (severity: FindingSeverity) => findings.filter(finding => finding.severity === severity).length;
+	const summary = {
+		criticalIssues: count('critical'),
+		majorIssues: count('major'),
+		minorIssues: count('minor'),
+		suggestions: count('suggestion')
+	};
+
+	let overallScore = 'Excellent';
+	if (summary.criticalIssues > 0) {
+		overallScore = 'Critical Issues';
+	} else if (summary.majorIssues > 0) {
+		overallScore = 'Needs Improvement';
+	} else if (summary.minorIssues > 0 || summary.suggestions > 0) {
+		overallScore = 'Good';
+	}
+
+	return { overallScore, ...summary };
+}
+
+// Findings grouped by category for the export; a category's severity is that of its most severe finding
+export function groupFindingsByCategory(findings: ReviewFinding[]): ExportData['reviewContent']['categories'] {
+	const categories = new Map<string, ReviewFinding[]>();
+	for (const finding of findings) {
+		const items = categories.get(finding.category) || [];
+		items.push(finding);
+		categories.set(finding.category, items);
+	}
+
+	return [...categories.entries()].map(([name, items]) => ({
+		name,
+		severity: FINDING_SEVERITIES.find(severity => items.some(item => item.severity === severity))!,
+		issueCount: items.length,
+		items: items.map(item => ({
+			title: item.title,
+			description: item.description,
+			file: item.file,
+			line: item.line,
+			severity: item.severity,
+			suggestion: item.suggestion
+		}))
+	}));
+}
@@ -1,5 +1,6 @@
 import * as vscode from 'vscode';
-import { GitAPI, Repository, Change } from './types';
+import * as path from 'path';
+import { GitAPI, Repository, Change, Commit, CommitRange, ReviewContext, STAGED_CHANGES_TARGET, WORKING_TREE_CHANGES_TARGET } from './types';
 import { logGitOperation } from './logger';
 
 // Git API cache and refresh functionality
@@ -145,6 +146,63 @@ export async function getGitRepository(workspaceFolder: vscode.WorkspaceFolder,
 	}
 }
 
+// Repository chosen in the sidebar or with "DiffLens: Select Repository"
+let selectedRepositoryPath: string | undefined;
+const selectedRepositoryEmitter = new vscode.EventEmitter<string>();
+export const onDidChangeSelectedRepository = selectedRepositoryEmitter.event;
+
+// Select the repository that reviews, previews, chat and the review tool act on
+export function setSelectedRepositoryPath(repositoryPath: string): void {
+	if (repositoryPath === selectedRepositoryPath) {
+		return;
+	}
+	logGitOperation('setSelectedRepositoryPath: Repository selected', { repositoryPath });
+	selectedRepositoryPath = repositoryPath;
+	selectedRepositoryEmitter.fire(repositoryPath);
+}
+
+// Root paths of all repositories opened by the Git extension, including submodules and nested repositories
+export async function getRepositoryPaths(forceRefresh: boolean = false): Promise<string[]> {
+	const gitAPI = await getGitAPI(forceRefresh);
+	return gitAPI ? gitAPI.repositories.map(repo => repo.rootUri.fsPath) : [];
+}
+
+// Get the repository whose root is at the given path
+export async function getRepositoryByPath(repositoryPath: string, forceRefresh: boolean = false): Promise<Repository | undefined> {
+	const gitAPI = await getGitAPI(forceRefresh);
+	if (!gitAPI) {
+		return undefined;
+	}
+	return gitAPI.repositories.find(repo => repo.rootUri.fsPath === repositoryPath) || gitAPI.getRepository(vscode.Uri.file(repositoryPath)) || undefined;
+}
+
+// Root path of the selected repository while it is open, otherwise of the first workspace folder's repository
+export async function getSelectedRepositoryPath(forceRefresh: boolean = false): Promise<string | undefined> {
+	if (selectedRepositoryPath && (await getRepositoryPaths(forceRefresh)).includes(selectedRepositoryPath)) {
+		return selectedRepositoryPath;
+	}
+	const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+	if (!workspaceFolder) {
+		return undefined;
+	}
+	const repository = await getGitRepository(workspaceFolder, forceRefresh);
+	return repository?.rootUri.fsPath;
+}
+
+// Name of a repository in pickers; nested repositories such as submodules also show where they are
+export function describeRepositoryPath(repositoryPath: string, allRepositoryPaths: string[]): string {
+	const parent = allRepositoryPaths
+		.filter(other => other !== repositoryPath && repositoryPath.startsWith(other + path.sep))
+		.sort((a, b) => b.length - a.length)[0];
+	const name = path.basename(repositoryPath);
+	return parent ? `${name} (${path.basename(parent)}/${path.relative(parent, repositoryPath).split(path.sep).join('/')})` : name;
+}
+
+// Path of a file relative to its repository root, with forward slashes as in git diff headers
+export function getRepositoryRelativePath(repository: Repository, uri: vscode.Uri): string {
+	return path.relative(repository.rootUri.fsPath, uri.fsPath).split(path.sep).join('/');
+}
+
 // Check if current workspace is a git repository using VS Code Git API
 export async function isGitRepository(workspaceFolder: string, forceRefresh: boolean = false): Promise<boolean> {
 	try {
@@ -243,9 +301,206 @@ export async function getChangesFromGitAPI(repository: Repository, fromCommit: s
 	}
 }
 
+// Parse a comparison: a single ref compares it with HEAD, "base..target" compares two refs
+// and "base...target" compares the target with its merge base with the base, like a pull request
+export function parseCommitRange(range: string | null | undefined): CommitRange {
+	const trimmed = range?.trim() || '';
+	const match = trimmed.match(/^(.*?)(\.{2,3})(.*)$/);
+	if (!match) {
+		return { base: trimmed || null, target: 'HEAD', mergeBase: false };
+	}
+	return {
+		base: match[1].trim() || null,
+		target: match[3].trim() || 'HEAD',
+		mergeBase: match[2] === '...'
+	};
+}
+
+// Get the commit where two refs diverged
+export async function getMergeBase(repository: Repository, ref1: string, ref2: string): Promise<string> {
+	const mergeBase = await repository.getMergeBase(ref1, ref2);
+	if (!mergeBase) {
+		throw new Error(`No common ancestor found for ${ref1} and ${ref2}`);
+	}
+	logGitOperation('getMergeBase: Resolved merge base', { ref1, ref2, mergeBase: mergeBase.substring(0, 8) });
+	return mergeBase;
+}
+
+// Resolve a comparison to the commits to diff: without a base the target is compared with its parent,
+// and in merge base mode the base is replaced by the commit where the target diverged from it
+export async function resolveCommitRange(repository: Repository, compareToCommit: string | null): Promise<{ fromCommit: string; toCommit: string }> {
+	const range = parseCommitRange(compareToCommit);
+	const toCommit = range.target;
+	if (!range.base) {
+		if (toCommit !== 'HEAD') {
+			return { fromCommit: `${toCommit}~1`, toCommit };
+		}
+		// Default: previous commit to HEAD
+		const log = await repository.log({ maxEntries: 2 });
+		if (log.length < 2) {
+			throw new Error('Not enough commits to compare');
+		}
+		return { fromCommit: log[1].hash, toCommit };
+	}
+	if (range.mergeBase) {
+		// Three-dot mode: only the changes made on the target since it diverged from the base
+		return { fromCommit: await getMergeBase(repository, range.base, toCommit), toCommit };
+	}
+	return { fromCommit: range.base, toCommit };
+}
+
+// Get the commits reachable from toCommit but not from fromCommit, oldest first
+export async function getCommitsInRange(repository: Repository, fromCommit: string, toCommit: string): Promise<Commit[]> {
+	const commits = await repository.log({ range: `${fromCommit}..${toCommit}` });
+	logGitOperation('getCommitsInRange: Found commits', { fromCommit: fromCommit.substring(0, 8), toCommit, count: commits.length });
+	return commits.reverse();
+}
+
+// Whether a comparison target is the staged or working tree changes rather than a commit
+export function isUncommittedTarget(target: string | null | undefined): boolean {
+	return target === STAGED_CHANGES_TARGET || target === WORKING_TREE_CHANGES_TARGET;
+}
+
+// Get the staged changes (index vs HEAD) or the working tree changes (working tree vs index) from the repository state
+// Untracked files count as working tree changes
+export function getUncommittedChanges(repository: Repository, staged: boolean): Change[] {
+	if (staged) {
+		logGitOperation('getUncommittedChanges: Staged changes', { count: repository.state.indexChanges.length });
+		return repository.state.indexChanges;
+	}
+
+	// Untracked files are listed with the working tree changes or separately, depending on git.untrackedChanges
+	const changes = [...repository.state.workingTreeChanges];
+	for (const change of repository.state.untrackedChanges || []) {
+		if (!changes.some(existing => existing.uri.toString() === change.uri.toString())) {
+			changes.push(change);
+		}
+	}
+	logGitOperation('getUncommittedChanges: Working tree changes', { count: changes.length });
+	return changes;
+}
+
+// Names of standards, encodings and algorithms that are written like issue keys (e.g. "UTF-8", "SHA-256")
+const NON_ISSUE_KEY_PREFIXES = new Set([
+	'AES', 'CVE', 'ECMA', 'HTTP', 'HTTPS', 'IEC', 'IEEE', 'ISO', 'PEP', 'RFC', 'RSA', 'SHA', 'SSL', 'TLS', 'UCS', 'UTF'
+]);
+
+// Issue keys mentioned in commit messages or branch names: Jira style "PROJ-123" and GitHub style "#42"
+// Jira project keys start with at least two letters
+export function extractIssueKeys(texts: string[]): string[] {
+	const keys = new Set<string>();
+	for (const text of texts) {
+		for (const match of text.matchAll(/\b([A-Z]{2}[A-Z0-9]*)-\d+\b/g)) {
+			if (!NON_ISSUE_KEY_PREFIXES.has(match[1])) {
+				keys.add(match[0]);
+			}
+		}
+		for (const match of text.matchAll(/(?:^|[\s(\[])(#\d+)\b/g)) {
+			keys.add(match[1]);
+		}
+	}
+	return [...keys];
+}
+
+// Gather the commit messages, branch name and issue keys of a comparison for the review prompt
+// Staged and working tree changes have no commits yet, so only the current branch describes them
+export async function getReviewContext(repositoryPath: string, compareToCommit: string | null): Promise<ReviewContext> {
+	const repository = await getRepositoryByPath(repositoryPath);
+	if (!repository) {
+		return {};
+	}
+
+	const uncommitted = isUncommittedTarget(compareToCommit);
+	const target = uncommitted ? 'HEAD' : parseCommitRange(compareToCommit).target;
+	// A reviewed ref other than HEAD is named by itself unless it is a commit hash
+	const branchName = target === 'HEAD' ? repository.state.HEAD?.name : (/^[0-9a-f]{7,40}$/i.test(target) ? undefined : target);
+
+	let commits: Commit[] = [];
+	if (!uncommitted) {
+		try {
+			const { fromCommit, toCommit } = await resolveCommitRange(repository, compareToCommit);
+			commits = await getCommitsInRange(repository, fromCommit, toCommit);
+		} catch (error) {
+			logGitOperation('getReviewContext: Failed to get commits', error);
+		}
+	}
+
+	const issueKeys = extractIssueKeys([branchName || '', ...commits.map(commit => commit.message)]);
+	logGitOperation('getReviewContext: Gathered review context', { branchName, commits: commits.length, issueKeys });
+	return { commits, branchName, issueKeys };
+}
+
 // Force refresh Git API cache
 export function refreshGitAPI(): void {
 	logGitOperation('Forcing Git API cache refresh');
 	cachedGitAPI = undefined;
 	gitAPILastRefresh = 0;
 }
+
+// Get Git information for export
+export async function getGitInformation(repositoryPath: string, selectedCommit?: string): Promise<any> {
+	try {
+		const repository = await getRepositoryByPath(repositoryPath);
+		if (!repository) {
+			return {
+				repository: path.basename(repositoryPath),
+				repositoryPath,
+				currentBranch: 'Unknown',
+				commitHash: 'Unknown',
+				commitMessage: 'Unknown',
+				author: 'Unknown',
+				commitDate: new Date().toISOString(),
+				selectedCommit: selectedCommit || null
+			};
+		}
+
+		// Get repository name
+		const repoName = path.basename(repository.rootUri.fsPath);
+
+		// Get current branch
+		const currentBranch = repository.state.HEAD?.name || 'Unknown';
+
+		// Get commit information
+		let commitHash = 'Unknown';
+		let commitMessage = 'Unknown';
+		let author = 'Unknown';
+		let commitDate = new Date().toISOString();
+
+		try {
+			// Staged and working tree reviews are described by the commit they are based on
+			const targetCommit = (!isUncommittedTarget(selectedCommit) && parseCommitRange(selectedCommit).base) || repository.state.HEAD?.commit;
+			if (targetCommit) {
+				const commit = await repository.getCommit(targetCommit);
+				commitHash = commit.hash;
+				commitMessage = commit.message.split('\n')[0]; // First line only
+				author = commit.authorName || 'Unknown';
+				commitDate = commit.authorDate?.toISOString() || new Date().toISOString();
+			}
+		} catch (error) {
+			console.log('Failed to get commit information:', error);
+		}
+
+		return {
+			repository: repoName,
+			repositoryPath: repository.rootUri.fsPath,
+			currentBranch: currentBranch,
+			commitHash: commitHash,
+			commitMessage: commitMessage,
+			author: author,
+			commitDate: commitDate,
+			selectedCommit: selectedCommit || null
+		};
+	} catch (error) {
+		console.log('Failed to get Git information:', error);
+		return {
+			repository: path.basename(repositoryPath),
+			repositoryPath,
+			currentBranch: 'Unknown',
+			commitHash: 'Unknown',
+			commitMessage: 'Unknown',
+			author: 'Unknown',
+			commitDate: new Date().toISOString(),
+			selectedCommit: selectedCommit || null
+		};
+	}
+}
@@ -10,6 +10,16 @@ export function getGitLogOutputChannel(): vscode.OutputChannel {
 	return gitLogOutputChannel;
 }
 
+// A single output channel for configuration debugging, shared by every caller instead of one per call
+let debugOutputChannel: vscode.OutputChannel | undefined;
+
+export function getDebugOutputChannel(): vscode.OutputChannel {
+	if (!debugOutputChannel) {
+		debugOutputChannel = vscode.window.createOutputChannel('DiffLens Debug');
+	}
+	return debugOutputChannel;
+}
+
 export function logGitOperation(message: string, data?: any) {
 	const timestamp = new Date().toISOString();
 	const logMessage = data ? `[${timestamp}] ${message}: ${JSON.stringify(data, null, 2)}` : `[${timestamp}] ${message}`;
@@ -26,4 +36,8 @@ export function disposeLogger() {
 		gitLogOutputChannel.dispose();
 		gitLogOutputChannel = undefined;
 	}
+	if (debugOutputChannel) {
+		debugOutputChannel.dispose();
+		debugOutputChannel = undefined;
+	}
 }
@@ -0,0 +1,70 @@
+import { TokenUsage } from '../types';
+
+// Anthropic Messages API helpers shared by the Bedrock and direct Anthropic providers
+
+// Build the Messages request body for a single user prompt
+export function buildAnthropicMessagesBody(prompt: string, maxTokens: number): { max_tokens: number; messages: Array<{ role: string; content: string }> } {
+	return {
+		max_tokens: maxTokens,
+		messages: [
+			{
+				role: 'user',
+				content: prompt
+			}
+		]
+	};
+}
+
+// Extract the text and token usage from a Messages response body
+export function parseAnthropicMessagesResponse(responseBody: any): { text: string; usage?: TokenUsage; stopReason?: string } {
+	const text = (responseBody.content || [])
+		.filter((block: any) => block.type === 'text')
+		.map((block: any) => block.text)
+		.join('');
+
+	return {
+		text,
+		usage: responseBody.usage ? {
+			inputTokens: responseBody.usage.input_tokens || 0,
+			outputTokens: responseBody.usage.output_tokens || 0
+		} : undefined,
+		stopReason: responseBody.stop_reason || undefined
+	};
+}
+
+// Accumulated state of a streamed Messages response
+export interface AnthropicStreamState {
+	text: string;
+	usage: TokenUsage;
+	stopReason?: string;
+}
+
+export function createAnthropicStreamState(): AnthropicStreamState {
+	return { text: '', usage: { inputTokens: 0, outputTokens: 0 } };
+}
+
+// Apply one Messages streaming event to the state, forwarding text deltas
+export function applyAnthropicStreamEvent(event: any, state: AnthropicStreamState, onText: (fragment: string) => void): void {
+	switch (event.type) {
+		case 'message_start':
+			state.usage.inputTokens = event.message?.usage?.input_tokens || 0;
+			state.usage.outputTokens = event.message?.usage?.output_tokens || 0;
+			break;
+		case 'content_block_delta':
+			if (event.delta?.type === 'text_delta' && event.delta.text) {
+				state.text += event.delta.text;
+				onText(event.delta.text);
+			}
+			break;
+		case 'message_delta':
+			if (event.delta?.stop_reason) {
+				state.stopReason = event.delta.stop_reason;
+			}
+			if (event.usage?.output_tokens !== undefined) {
+				state.usage.outputTokens = event.usage.output_tokens;
+			}
+			break;
+		case 'error':
+			throw new Error(event.error?.message || 'Anthropic stream error');
+	}
+}
@@ -0,0 +1,112 @@
+import * as vscode from 'vscode';
+import { LLMProvider, LLMResponse, ModelPricing, ReviewConfig } from '../types';
+import { applyAnthropicStreamEvent, buildAnthropicMessagesBody, createAnthropicStreamState, parseAnthropicMessagesResponse } from './anthropicMessages';
+import { toAbortSignal } from './cancellation';
+import { readStreamLines } from './streamLines';
+
+const ANTHROPIC_API_URL = 'https://api.anthropic.com/v1';
+const ANTHROPIC_VERSION = '2023-06-01';
+
+// Anthropic models offered in the settings view
+const ANTHROPIC_MODELS = [
+	'claude-3-5-sonnet-latest',
+	'claude-3-5-haiku-latest',
+	'claude-3-opus-latest'
+];
+
+// Prices of the Anthropic models, used for the pre-flight cost estimate
+const ANTHROPIC_PRICING: Record<string, ModelPricing> = {
+	'claude-3-5-sonnet-latest': { inputPerMillionTokens: 3, outputPerMillionTokens: 15 },
+	'claude-3-5-haiku-latest': { inputPerMillionTokens: 0.8, outputPerMillionTokens: 4 },
+	'claude-3-opus-latest': { inputPerMillionTokens: 15, outputPerMillionTokens: 75 }
+};
+
+// Direct Anthropic Messages API provider
+export class AnthropicProvider implements LLMProvider {
+	readonly id = 'anthropic';
+	readonly displayName = 'Anthropic API';
+
+	validateConfig(config: ReviewConfig): string[] {
+		const errors: string[] = [];
+		if (!config.anthropicApiKey) {
+			errors.push('API Key is required for Anthropic API');
+		}
+		if (!config.anthropicModel) {
+			errors.push('Model is required for Anthropic API');
+		}
+		return errors;
+	}
+
+	async sendPrompt(prompt: string, config: ReviewConfig, token?: vscode.CancellationToken): Promise<LLMResponse> {
+		try {
+			const response = await this.postMessages(prompt, config, false, token);
+			const responseBody: any = await response.json();
+			const { text, usage, stopReason } = parseAnthropicMessagesResponse(responseBody);
+			return {
+				modelName: responseBody.model || config.anthropicModel,
+				text,
+				usage,
+				stopReason
+			};
+		} catch (error) {
+			throw new Error(`Failed to get review from Anthropic API: ${error}`);
+		}
+	}
+
+	async streamPrompt(prompt: string, config: ReviewConfig, onText: (fragment: string) => void, token?: vscode.CancellationToken): Promise<LLMResponse> {
+		try {
+			const response = await this.postMessages(prompt, config, true, token);
+			if (!response.body) {
+				throw new Error('Response has no body');
+			}
+
+			const state = createAnthropicStreamState();
+
+			// Server-sent events: each event's JSON payload is on its "data:" line
+			for await (const line of readStreamLines(response.body)) {
+				if (line.startsWith('data:')) {
+					applyAnthropicStreamEvent(JSON.parse(line.substring(5).trim()), state, onText);
+				}
+			}
+
+			return {
+				modelName: config.anthropicModel,
+				text: state.text,
+				usage: state.usage,
+				stopReason: state.stopReason
+			};
+		} catch (error) {
+			throw new Error(`Failed to get review from Anthropic API: ${error}`);
+		}
+	}
+
+	async listModels(config: ReviewConfig): Promise<string[]> {
+		return ANTHROPIC_MODELS;
+	}
+
+	getPricing(config: ReviewConfig): ModelPricing | undefined {
+		return ANTHROPIC_PRICING[config.anthropicModel];
+	}
+
+	private async postMessages(prompt: string, config: ReviewConfig, stream: boolean, token?: vscode.CancellationToken): Promise<Response> {
+		const response = await fetch(`${ANTHROPIC_API_URL}/messages`, {
+			method: 'POST',
+			signal: toAbortSignal(token),
+			headers: {
+				'Content-Type': 'application/json',
+				'x-api-key': config.anthropicApiKey,
+				'anthropic-version': ANTHROPIC_VERSION
+			},
+			body: JSON.stringify({
+				model: config.anthropicModel,
+				stream,
+				...buildAnthropicMessagesBody(prompt, config.anthropicMaxTokens)
+			})
+		});
+
+		if (!response.ok) {
+			throw new Error(`HTTP ${response.status}: ${await response.text()}`);
+		}
+		return response;
+	}
+}
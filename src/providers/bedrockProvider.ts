@@ -0,0 +1,123 @@
+import * as vscode from 'vscode';
+import { BedrockRuntimeClient, InvokeModelCommand, InvokeModelWithResponseStreamCommand } from '@aws-sdk/client-bedrock-runtime';
+import { LLMProvider, LLMResponse, ModelPricing, ReviewConfig } from '../types';
+import { applyAnthropicStreamEvent, buildAnthropicMessagesBody, createAnthropicStreamState, parseAnthropicMessagesResponse } from './anthropicMessages';
+import { toAbortSignal } from './cancellation';
+
+// Bedrock models offered in the settings view
+const BEDROCK_MODELS = [
+	'anthropic.claude-3-5-sonnet-20241022-v2:0',
+	'anthropic.claude-3-5-sonnet-20240620-v1:0',
+	'anthropic.claude-3-sonnet-20240229-v1:0',
+	'anthropic.claude-3-haiku-20240307-v1:0',
+	'anthropic.claude-3-opus-20240229-v1:0'
+];
+
+// On-demand prices of the Bedrock models, used for the pre-flight cost estimate
+const BEDROCK_PRICING: Record<string, ModelPricing> = {
+	'anthropic.claude-3-5-sonnet-20241022-v2:0': { inputPerMillionTokens: 3, outputPerMillionTokens: 15 },
+	'anthropic.claude-3-5-sonnet-20240620-v1:0': { inputPerMillionTokens: 3, outputPerMillionTokens: 15 },
+	'anthropic.claude-3-sonnet-20240229-v1:0': { inputPerMillionTokens: 3, outputPerMillionTokens: 15 },
+	'anthropic.claude-3-haiku-20240307-v1:0': { inputPerMillionTokens: 0.25, outputPerMillionTokens: 1.25 },
+	'anthropic.claude-3-opus-20240229-v1:0': { inputPerMillionTokens: 15, outputPerMillionTokens: 75 }
+};
+
+// AWS Bedrock provider using the Anthropic Messages payload
+export class BedrockProvider implements LLMProvider {
+	readonly id = 'bedrock';
+	readonly displayName = 'AWS Bedrock';
+
+	validateConfig(config: ReviewConfig): string[] {
+		const errors: string[] = [];
+		if (!config.awsAccessKey) {
+			errors.push('AWS Access Key is required for Bedrock');
+		}
+		if (!config.awsSecretKey) {
+			errors.push('AWS Secret Key is required for Bedrock');
+		}
+		return errors;
+	}
+
+	async sendPrompt(prompt: string, config: ReviewConfig, token?: vscode.CancellationToken): Promise<LLMResponse> {
+		try {
+			const client = this.createClient(config);
+			const command = new InvokeModelCommand({
+				modelId: config.modelName,
+				contentType: 'application/json',
+				accept: 'application/json',
+				body: JSON.stringify({
+					anthropic_version: 'bedrock-2023-05-31',
+					...buildAnthropicMessagesBody(prompt, 4000)
+				})
+			});
+			const response = await client.send(command, { abortSignal: toAbortSignal(token) });
+
+			const responseBody = JSON.parse(new TextDecoder().decode(response.body));
+			const { text, usage, stopReason } = parseAnthropicMessagesResponse(responseBody);
+			return {
+				modelName: config.modelName,
+				text,
+				usage,
+				stopReason
+			};
+		} catch (error) {
+			throw new Error(`Failed to get review from Bedrock: ${error}`);
+		}
+	}
+
+	async streamPrompt(prompt: string, config: ReviewConfig, onText: (fragment: string) => void, token?: vscode.CancellationToken): Promise<LLMResponse> {
+		try {
+			const client = this.createClient(config);
+			const command = new InvokeModelWithResponseStreamCommand({
+				modelId: config.modelName,
+				contentType: 'application/json',
+				accept: 'application/json',
+				body: JSON.stringify({
+					anthropic_version: 'bedrock-2023-05-31',
+					...buildAnthropicMessagesBody(prompt, 4000)
+				})
+			});
+			const response = await client.send(command, { abortSignal: toAbortSignal(token) });
+			if (!response.body) {
+				throw new Error('Response has no body');
+			}
+
+			const state = createAnthropicStreamState();
+			const decoder = new TextDecoder();
+
+			// Each chunk carries one Anthropic Messages streaming event as JSON bytes
+			for await (const event of response.body) {
+				if (event.chunk?.bytes) {
+					applyAnthropicStreamEvent(JSON.parse(decoder.decode(event.chunk.bytes)), state, onText);
+				}
+			}
+
+			return {
+				modelName: config.modelName,
+				text: state.text,
+				usage: state.usage,
+				stopReason: state.stopReason
+			};
+		} catch (error) {
+			throw new Error(`Failed to get review from Bedrock: ${error}`);
+		}
+	}
+
+	async listModels(config: ReviewConfig): Promise<string[]> {
+		return BEDROCK_MODELS;
+	}
+
+	getPricing(config: ReviewConfig): ModelPricing | undefined {
+		return BEDROCK_PRICING[config.modelName];
+	}
+
+	private createClient(config: ReviewConfig): BedrockRuntimeClient {
+		return new BedrockRuntimeClient({
+			region: config.awsRegion,
+			credentials: {
+				accessKeyId: config.awsAccessKey,
+				secretAccessKey: config.awsSecretKey
+			}
+		});
+	}
+}
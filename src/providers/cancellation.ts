@@ -0,0 +1,19 @@
+import * as vscode from 'vscode';
+
+// Abort signal for fetch and the AWS SDK that fires when the VS Code token is cancelled
+export function toAbortSignal(token?: vscode.CancellationToken): AbortSignal | undefined {
+	if (!token) {
+		return undefined;
+	}
+
+	const controller = new AbortController();
+	if (token.isCancellationRequested) {
+		controller.abort();
+	} else {
+		const listener = token.onCancellationRequested(() => {
+			listener.dispose();
+			controller.abort();
+		});
+	}
+	return controller.signal;
+}
@@ -0,0 +1,132 @@
+import * as vscode from 'vscode';
+import { LLMProvider, LLMResponse, ReviewConfig, TokenUsage } from '../types';
+import { toAbortSignal } from './cancellation';
+import { readStreamLines } from './streamLines';
+
+// Provider for a local Ollama daemon, for fully offline reviews
+export class OllamaProvider implements LLMProvider {
+	readonly id = 'ollama';
+	readonly displayName = 'Ollama (Local)';
+
+	validateConfig(config: ReviewConfig): string[] {
+		const errors: string[] = [];
+		if (!config.ollamaBaseUrl) {
+			errors.push('Base URL is required for Ollama');
+		}
+		if (!config.ollamaModel) {
+			errors.push('Model is required for Ollama');
+		}
+		return errors;
+	}
+
+	async sendPrompt(prompt: string, config: ReviewConfig, token?: vscode.CancellationToken): Promise<LLMResponse> {
+		try {
+			const response = await this.postChat(prompt, config, false, token);
+			const responseBody: any = await response.json();
+			return {
+				modelName: responseBody.model || config.ollamaModel,
+				text: responseBody.message?.content || '',
+				usage: this.parseUsage(responseBody),
+				stopReason: responseBody.done_reason || undefined
+			};
+		} catch (error) {
+			throw new Error(`Failed to get review from Ollama: ${error}`);
+		}
+	}
+
+	async streamPrompt(prompt: string, config: ReviewConfig, onText: (fragment: string) => void, token?: vscode.CancellationToken): Promise<LLMResponse> {
+		try {
+			const response = await this.postChat(prompt, config, true, token);
+			if (!response.body) {
+				throw new Error('Response has no body');
+			}
+
+			let modelName = config.ollamaModel;
+			let text = '';
+			let usage: TokenUsage | undefined;
+			let stopReason: string | undefined;
+
+			// Newline-delimited JSON: one message chunk per line, the last one has done: true
+			for await (const line of readStreamLines(response.body)) {
+				if (!line.trim()) {
+					continue;
+				}
+
+				const event = JSON.parse(line);
+				if (event.error) {
+					throw new Error(event.error);
+				}
+				modelName = event.model || modelName;
+				const fragment = event.message?.content;
+				if (fragment) {
+					text += fragment;
+					onText(fragment);
+				}
+				if (event.done) {
+					usage = this.parseUsage(event);
+					stopReason = event.done_reason || undefined;
+				}
+			}
+
+			return { modelName, text, usage, stopReason };
+		} catch (error) {
+			throw new Error(`Failed to get review from Ollama: ${error}`);
+		}
+	}
+
+	// Discover installed models through the daemon's tags endpoint
+	async listModels(config: ReviewConfig): Promise<string[]> {
+		try {
+			const response = await fetch(this.endpoint(config, '/api/tags'));
+			if (!response.ok) {
+				throw new Error(`HTTP ${response.status}: ${await response.text()}`);
+			}
+			const responseBody: any = await response.json();
+			const models = (responseBody.models || []).map((model: any) => model.name).sort();
+			console.log('Available Ollama models:', models);
+			return models;
+		} catch (error) {
+			console.log('Failed to get Ollama models:', error);
+			return [];
+		}
+	}
+
+	private async postChat(prompt: string, config: ReviewConfig, stream: boolean, token?: vscode.CancellationToken): Promise<Response> {
+		const response = await fetch(this.endpoint(config, '/api/chat'), {
+			method: 'POST',
+			signal: toAbortSignal(token),
+			headers: {
+				'Content-Type': 'application/json'
+			},
+			body: JSON.stringify({
+				model: config.ollamaModel,
+				stream,
+				messages: [
+					{
+						role: 'user',
+						content: prompt
+					}
+				]
+			})
+		});
+
+		if (!response.ok) {
+			throw new Error(`HTTP ${response.status}: ${await response.text()}`);
+		}
+		return response;
+	}
+
+	private endpoint(config: ReviewConfig, path: string): string {
+		return `${config.ollamaBaseUrl.replace(/\/+$/, '')}${path}`;
+	}
+
+	private parseUsage(responseBody: any): TokenUsage | undefined {
+		if (responseBody.prompt_eval_count === undefined && responseBody.eval_count === undefined) {
+			return undefined;
+		}
+		return {
+			inputTokens: responseBody.prompt_eval_count || 0,
+			outputTokens: responseBody.eval_count || 0
+		};
+	}
+}
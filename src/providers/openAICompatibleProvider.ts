@@ -0,0 +1,139 @@
+import * as vscode from 'vscode';
+import { LLMProvider, LLMResponse, ReviewConfig, TokenUsage } from '../types';
+import { toAbortSignal } from './cancellation';
+import { readStreamLines } from './streamLines';
+
+// Provider for self-hosted OpenAI-compatible endpoints (vLLM, llama.cpp server, etc.)
+export class OpenAICompatibleProvider implements LLMProvider {
+	readonly id = 'openai-compatible';
+	readonly displayName = 'OpenAI Compatible API';
+
+	validateConfig(config: ReviewConfig): string[] {
+		const errors: string[] = [];
+		if (!config.openaiBaseUrl) {
+			errors.push('Base URL is required for OpenAI Compatible API');
+		}
+		if (!config.openaiModel) {
+			errors.push('Model is required for OpenAI Compatible API');
+		}
+		return errors;
+	}
+
+	async sendPrompt(prompt: string, config: ReviewConfig, token?: vscode.CancellationToken): Promise<LLMResponse> {
+		try {
+			const response = await this.postChatCompletion(prompt, config, false, token);
+			const responseBody: any = await response.json();
+			return {
+				modelName: responseBody.model || config.openaiModel,
+				text: responseBody.choices?.[0]?.message?.content || '',
+				usage: this.parseUsage(responseBody.usage),
+				stopReason: responseBody.choices?.[0]?.finish_reason || undefined
+			};
+		} catch (error) {
+			throw new Error(`Failed to get review from OpenAI Compatible API: ${error}`);
+		}
+	}
+
+	async streamPrompt(prompt: string, config: ReviewConfig, onText: (fragment: string) => void, token?: vscode.CancellationToken): Promise<LLMResponse> {
+		try {
+			const response = await this.postChatCompletion(prompt, config, true, token);
+			if (!response.body) {
+				throw new Error('Response has no body');
+			}
+
+			let modelName = config.openaiModel;
+			let text = '';
+			let usage: TokenUsage | undefined;
+			let stopReason: string | undefined;
+
+			// Server-sent events: one "data: {json}" line per chunk, terminated by "data: [DONE]"
+			for await (const line of readStreamLines(response.body)) {
+				const data = line.trim();
+				if (!data.startsWith('data:')) {
+					continue;
+				}
+				const payload = data.substring(5).trim();
+				if (payload === '[DONE]') {
+					continue;
+				}
+
+				const event = JSON.parse(payload);
+				modelName = event.model || modelName;
+				usage = this.parseUsage(event.usage) || usage;
+				stopReason = event.choices?.[0]?.finish_reason || stopReason;
+				const fragment = event.choices?.[0]?.delta?.content;
+				if (fragment) {
+					text += fragment;
+					onText(fragment);
+				}
+			}
+
+			return { modelName, text, usage, stopReason };
+		} catch (error) {
+			throw new Error(`Failed to get review from OpenAI Compatible API: ${error}`);
+		}
+	}
+
+	async listModels(config: ReviewConfig): Promise<string[]> {
+		try {
+			const response = await fetch(this.endpoint(config, '/models'), {
+				headers: this.headers(config)
+			});
+			if (!response.ok) {
+				throw new Error(`HTTP ${response.status}: ${await response.text()}`);
+			}
+			const responseBody: any = await response.json();
+			return (responseBody.data || []).map((model: any) => model.id).sort();
+		} catch (error) {
+			console.log('Failed to get OpenAI compatible models:', error);
+			return [];
+		}
+	}
+
+	private async postChatCompletion(prompt: string, config: ReviewConfig, stream: boolean, token?: vscode.CancellationToken): Promise<Response> {
+		const response = await fetch(this.endpoint(config, '/chat/completions'), {
+			method: 'POST',
+			signal: toAbortSignal(token),
+			headers: {
+				...this.headers(config),
+				'Content-Type': 'application/json'
+			},
+			body: JSON.stringify({
+				model: config.openaiModel,
+				temperature: config.openaiTemperature,
+				max_tokens: 4000,
+				stream,
+				...(stream ? { stream_options: { include_usage: true } } : {}),
+				messages: [
+					{
+						role: 'user',
+						content: prompt
+					}
+				]
+			})
+		});
+
+		if (!response.ok) {
+			throw new Error(`HTTP ${response.status}: ${await response.text()}`);
+		}
+		return response;
+	}
+
+	private endpoint(config: ReviewConfig, path: string): string {
+		return `${config.openaiBaseUrl.replace(/\/+$/, '')}${path}`;
+	}
+
+	private headers(config: ReviewConfig): Record<string, string> {
+		return config.openaiApiKey ? { 'Authorization': `Bearer ${config.openaiApiKey}` } : {};
+	}
+
+	private parseUsage(usage: any): TokenUsage | undefined {
+		if (!usage) {
+			return undefined;
+		}
+		return {
+			inputTokens: usage.prompt_tokens || 0,
+			outputTokens: usage.completion_tokens || 0
+		};
+	}
+}
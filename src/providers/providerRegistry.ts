@@ -0,0 +1,31 @@
+import { LLMProvider } from '../types';
+import { BedrockProvider } from './bedrockProvider';
+import { VSCodeLMProvider } from './vscodeLmProvider';
+import { OpenAICompatibleProvider } from './openAICompatibleProvider';
+import { OllamaProvider } from './ollamaProvider';
+import { AnthropicProvider } from './anthropicProvider';
+
+// Registered LLM providers keyed by their diffLens.llmProvider id
+const providers = new Map<string, LLMProvider>();
+
+// Register an LLM provider, replacing any provider with the same id
+export function registerProvider(provider: LLMProvider): void {
+	providers.set(provider.id, provider);
+}
+
+// Get the provider registered for the given id
+export function getProvider(id: string): LLMProvider | undefined {
+	return providers.get(id);
+}
+
+// Get all registered providers in registration order
+export function getRegisteredProviders(): LLMProvider[] {
+	return [...providers.values()];
+}
+
+// Built-in providers
+registerProvider(new BedrockProvider());
+registerProvider(new VSCodeLMProvider());
+registerProvider(new OpenAICompatibleProvider());
+registerProvider(new OllamaProvider());
+registerProvider(new AnthropicProvider());
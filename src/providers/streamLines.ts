@@ -0,0 +1,16 @@
+// Lines of a streamed response body, including a last line that does not end with a newline
+export async function* readStreamLines(body: AsyncIterable<Uint8Array>): AsyncGenerator<string> {
+	const decoder = new TextDecoder();
+	let buffer = '';
+	for await (const chunk of body) {
+		buffer += decoder.decode(chunk, { stream: true });
+		const lines = buffer.split('\n');
+		buffer = lines.pop() || '';
+		yield* lines;
+	}
+
+	buffer += decoder.decode();
+	if (buffer) {
+		yield buffer;
+	}
+}
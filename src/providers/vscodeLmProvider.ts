@@ -0,0 +1,106 @@
+import * as vscode from 'vscode';
+import { LLMProvider, LLMResponse, ReviewConfig } from '../types';
+
+// Families offered when the VS Code LM API cannot be queried
+const FALLBACK_FAMILIES = ['gpt-4o', 'gpt-4', 'gpt-3.5-turbo', 'claude-3-5-sonnet', 'claude-3-haiku', 'claude-3-opus', 'gemini-1.5-pro', 'gemini-1.5-flash'];
+
+// VS Code Language Model API provider (Copilot and other installed chat models)
+export class VSCodeLMProvider implements LLMProvider {
+	readonly id = 'vscode-lm';
+	readonly displayName = 'VS Code Language Model API';
+
+	validateConfig(config: ReviewConfig): string[] {
+		const errors: string[] = [];
+		if (!config.vscodeLmFamily) {
+			errors.push('VS Code LM Family is required');
+		}
+		return errors;
+	}
+
+	async sendPrompt(prompt: string, config: ReviewConfig, token?: vscode.CancellationToken): Promise<LLMResponse> {
+		return await this.streamPrompt(prompt, config, () => {}, token);
+	}
+
+	async streamPrompt(prompt: string, config: ReviewConfig, onText: (fragment: string) => void, token?: vscode.CancellationToken): Promise<LLMResponse> {
+		try {
+			const model = await this.selectModel(config);
+			console.log(`Using VS Code LM model: ${model.name} (vendor: ${model.vendor}, family: ${model.family})`);
+
+			const messages = [
+				vscode.LanguageModelChatMessage.User(prompt)
+			];
+
+			const request = await model.sendRequest(messages, {}, token);
+
+			let response = '';
+			for await (const fragment of request.text) {
+				response += fragment;
+				onText(fragment);
+			}
+
+			return {
+				modelName: `${model.vendor}/${model.family} (${model.name})`,
+				text: response,
+				usage: {
+					inputTokens: await model.countTokens(prompt, token),
+					outputTokens: await model.countTokens(response, token)
+				}
+			};
+		} catch (error) {
+			if (error instanceof vscode.LanguageModelError) {
+				throw new Error(`VS Code LM Error: ${error.message} (${error.code})`);
+			}
+			throw new Error(`Failed to get review from VS Code LM: ${error}`);
+		}
+	}
+
+	async listModels(config: ReviewConfig): Promise<string[]> {
+		try {
+			const allModels = await vscode.lm.selectChatModels();
+			const families = [...new Set(allModels.map(model => model.family))].sort();
+			console.log('Available VS Code LM families:', families);
+			return families;
+		} catch (error) {
+			console.log('Failed to get VS Code LM families:', error);
+			// Return default families as fallback
+			return FALLBACK_FAMILIES;
+		}
+	}
+
+	async countTokens(text: string, config: ReviewConfig, token?: vscode.CancellationToken): Promise<number> {
+		const model = await this.selectModel(config);
+		return await model.countTokens(text, token);
+	}
+
+	private async selectModel(config: ReviewConfig): Promise<vscode.LanguageModelChat> {
+		// First, try to get models with the specific family without vendor restriction
+		let models = await vscode.lm.selectChatModels({
+			family: config.vscodeLmFamily
+		});
+
+		// If no models found, try to get all models and filter by family
+		if (models.length === 0) {
+			const allModels = await vscode.lm.selectChatModels();
+			models = allModels.filter(model => model.family === config.vscodeLmFamily);
+		}
+
+		// If still no models found, try with copilot vendor (for backward compatibility)
+		if (models.length === 0) {
+			models = await vscode.lm.selectChatModels({
+				vendor: config.vscodeLmVendor,
+				family: config.vscodeLmFamily
+			});
+		}
+
+		if (models.length === 0) {
+			// Get all available models for debugging
+			const allModels = await vscode.lm.selectChatModels();
+			const availableFamilies = [...new Set(allModels.map(m => m.family))].sort();
+			const availableVendors = [...new Set(allModels.map(m => m.vendor))].sort();
+
+			throw new Error(`No VS Code LM models available for family: ${config.vscodeLmFamily}. Available families: ${availableFamilies.join(', ')}. Available vendors: ${availableVendors.join(', ')}`);
+		}
+
+		return models[0];
+	}
+}
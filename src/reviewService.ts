@@ -1,146 +1,296 @@
 import * as vscode from 'vscode';
-import { BedrockRuntimeClient, InvokeModelCommand } from '@aws-sdk/client-bedrock-runtime';
-import { ReviewConfig, ReviewResult } from './types';
+import { LLMResponse, ReviewConfig, ReviewContext, ReviewEstimate, ReviewFinding, ReviewResult, TokenUsage } from './types';
 import { formatDiffAsMarkdown } from './diffService';
-
-// Send diff to AWS Bedrock for review
-export async function reviewWithBedrock(diff: string, config: ReviewConfig): Promise<ReviewResult> {
-	try {
-		const client = new BedrockRuntimeClient({
-			region: config.awsRegion,
-			credentials: {
-				accessKeyId: config.awsAccessKey,
-				secretAccessKey: config.awsSecretKey
-			}
+import { estimateTokens, splitDiffIntoChunks } from './chunkService';
+import { publishReviewDiagnostics } from './diagnosticsService';
+import { showReviewComments } from './commentsService';
+import { buildFindingsInstructions, buildFindingsRepairPrompt, formatFindingsAsMarkdown, parseFindings } from './findingsService';
+import { getProvider } from './providers/providerRegistry';
+
+// Describe the reviewed branch, linked issues and commits for the prompt, with full commit messages
+function formatReviewContext(context?: ReviewContext): string {
+	const sections: string[] = [];
+	if (context?.branchName) {
+		sections.push(`Branch: ${context.branchName}`);
+	}
+	if (context?.issueKeys && context.issueKeys.length > 0) {
+		sections.push(`Linked issues: ${context.issueKeys.join(', ')}`);
+	}
+	if (context?.commits && context.commits.length > 0) {
+		const commits = context.commits.map(commit => {
+			const message = commit.message.trim().split('\n').map(line => `  ${line}`).join('\n');
+			return `- ${commit.hash.substring(0, 8)}:\n${message}`;
 		});
+		sections.push(`Commit messages of the reviewed changes (check that the changes do what they describe):\n${commits.join('\n')}`);
+	}
+	return sections.map(section => `\n\n${section}`).join('');
+}
 
-		const prompt = `${config.systemPrompt}
+// Build the review prompt sent to every provider
+export function buildReviewPrompt(diff: string, config: ReviewConfig, context?: ReviewContext): string {
+	return `${config.systemPrompt}
 
-Review Perspective: ${config.reviewPerspective}
+Review Perspective: ${config.reviewPerspective}${formatReviewContext(context)}
 
 Please review the following git diff (formatted in markdown for better readability):
 
 ${formatDiffAsMarkdown(diff)}
 
 Please provide a detailed code review with specific suggestions for improvement.`;
+}
 
-		const input = {
-			modelId: config.modelName,
-			contentType: 'application/json',
-			accept: 'application/json',
-			body: JSON.stringify({
-				anthropic_version: 'bedrock-2023-05-31',
-				max_tokens: 4000,
-				messages: [
-					{
-						role: 'user',
-						content: prompt
-					}
-				]
-			})
-		};
-
-		const command = new InvokeModelCommand(input);
-		const response = await client.send(command);
-		
-		const responseBody = JSON.parse(new TextDecoder().decode(response.body));
-		return {
-			modelName: config.modelName,
-			review: responseBody.content[0].text,
-			systemPrompt: config.systemPrompt,
-			reviewPerspective: config.reviewPerspective
-		};
-	} catch (error) {
-		throw new Error(`Failed to get review from Bedrock: ${error}`);
-	}
+// Add the structured output instructions to a review prompt
+function withFindingsInstructions(prompt: string): string {
+	return `${prompt}
+
+${buildFindingsInstructions()}`;
 }
 
-// Send diff to VS Code LM API for review
-export async function reviewWithVSCodeLM(diff: string, config: ReviewConfig): Promise<ReviewResult> {
-	try {
-		// First, try to get models with the specific family without vendor restriction
-		let models = await vscode.lm.selectChatModels({
-			family: config.vscodeLmFamily
-		});
+// Prompts a review of the diff sends before any synthesis or repair request: one per chunk of a chunked review,
+// including the review context and, in structured output mode, the findings instructions
+export function buildReviewRequestPrompts(diff: string, config: ReviewConfig, context?: ReviewContext): string[] {
+	const chunks = needsChunkedReview(diff, config) ? splitDiffIntoChunks(diff, config.chunkTokenBudget) : [diff];
+	const prompts = chunks.length <= 1
+		? [buildReviewPrompt(diff, config, context)]
+		: chunks.map((chunk, index) => buildChunkReviewPrompt(chunk, index, chunks.length, config, context));
+	return config.structuredOutput ? prompts.map(withFindingsInstructions) : prompts;
+}
 
-		// If no models found, try to get all models and filter by family
-		if (models.length === 0) {
-			const allModels = await vscode.lm.selectChatModels();
-			models = allModels.filter(model => model.family === config.vscodeLmFamily);
+// Estimate the input tokens of the review prompts, and their cost where the model's pricing is known
+// The provider's tokenizer is used when available, otherwise the character-based heuristic
+export async function estimateReview(prompts: string[], config: ReviewConfig, token?: vscode.CancellationToken): Promise<ReviewEstimate> {
+	const provider = getProvider(config.llmProvider);
+
+	let inputTokens = 0;
+	let exact = true;
+	for (const prompt of prompts) {
+		let promptTokens = estimateTokens(prompt);
+		let counted = false;
+		if (provider?.countTokens) {
+			try {
+				promptTokens = await provider.countTokens(prompt, config, token);
+				counted = true;
+			} catch (error) {
+				console.log('Failed to count tokens, using heuristic estimate:', error);
+			}
 		}
+		inputTokens += promptTokens;
+		exact = exact && counted;
+	}
 
-		// If still no models found, try with copilot vendor (for backward compatibility)
-		if (models.length === 0) {
-			models = await vscode.lm.selectChatModels({
-				vendor: config.vscodeLmVendor,
-				family: config.vscodeLmFamily
-			});
-		}
+	const pricing = provider?.getPricing?.(config);
+	return {
+		inputTokens,
+		exact,
+		estimatedInputCost: pricing ? inputTokens * pricing.inputPerMillionTokens / 1000000 : undefined
+	};
+}
 
-		if (models.length === 0) {
-			// Get all available models for debugging
-			const allModels = await vscode.lm.selectChatModels();
-			const availableFamilies = [...new Set(allModels.map(m => m.family))].sort();
-			const availableVendors = [...new Set(allModels.map(m => m.vendor))].sort();
-			
-			throw new Error(`No VS Code LM models available for family: ${config.vscodeLmFamily}. Available families: ${availableFamilies.join(', ')}. Available vendors: ${availableVendors.join(', ')}`);
-		}
+// Show the token and cost estimate of a large review and ask whether to send it
+export async function confirmReviewEstimate(estimate: ReviewEstimate): Promise<boolean> {
+	const details = [
+		`推定入力トークン数: ${estimate.exact ? '' : '約 '}${estimate.inputTokens.toLocaleString()}`
+	];
+	if (estimate.estimatedInputCost !== undefined) {
+		details.push(`推定入力コスト: $${estimate.estimatedInputCost.toFixed(4)}（出力トークン分は含みません）`);
+	}
 
-		const [model] = models;
-		console.log(`Using VS Code LM model: ${model.name} (vendor: ${model.vendor}, family: ${model.family})`);
-		
-		const prompt = `${config.systemPrompt}
+	const selection = await vscode.window.showWarningMessage(
+		'レビューするデータ量が設定された閾値を超えています。送信しますか？',
+		{ modal: true, detail: details.join('\n') },
+		'送信'
+	);
+	return selection === '送信';
+}
 
-Review Perspective: ${config.reviewPerspective}
+// Send a prompt to a registered LLM provider
+// When onText is given, the reply is streamed and each fragment is forwarded as it arrives
+// Cancelling the token aborts the request and rejects with vscode.CancellationError
+async function sendToProvider(providerId: string, prompt: string, config: ReviewConfig, onText?: (fragment: string) => void, token?: vscode.CancellationToken): Promise<LLMResponse> {
+	const provider = getProvider(providerId);
+	if (!provider) {
+		throw new Error(`Unknown LLM provider: ${providerId}`);
+	}
 
-Please review the following git diff (formatted in markdown for better readability):
+	let response: LLMResponse;
+	try {
+		response = onText
+			? await provider.streamPrompt(prompt, config, onText, token)
+			: await provider.sendPrompt(prompt, config, token);
+	} catch (error) {
+		if (token?.isCancellationRequested) {
+			throw new vscode.CancellationError();
+		}
+		throw error;
+	}
+	if (token?.isCancellationRequested) {
+		throw new vscode.CancellationError();
+	}
+	return response;
+}
 
-${formatDiffAsMarkdown(diff)}
+// Send a free-form prompt (e.g. a follow-up question) to the configured LLM provider
+export async function sendPromptToLLM(prompt: string, config: ReviewConfig, token?: vscode.CancellationToken, onText?: (fragment: string) => void): Promise<LLMResponse> {
+	return await sendToProvider(config.llmProvider, prompt, config, onText, token);
+}
 
-Please provide a detailed code review with specific suggestions for improvement.`;
+// Retries after a structured response fails validation
+const MAX_FINDINGS_REPAIR_ATTEMPTS = 2;
 
-		const messages = [
-			vscode.LanguageModelChatMessage.User(prompt)
-		];
+// Request structured findings, sending invalid responses back to the model for correction
+async function requestFindings(providerId: string, prompt: string, config: ReviewConfig, token?: vscode.CancellationToken): Promise<{ findings: ReviewFinding[]; responses: LLMResponse[] }> {
+	const responses: LLMResponse[] = [];
+	let currentPrompt = withFindingsInstructions(prompt);
+	let errors: string[] = [];
 
-		const request = await model.sendRequest(messages, {}, new vscode.CancellationTokenSource().token);
-		
-		let response = '';
-		for await (const fragment of request.text) {
-			response += fragment;
-		}
-		
-		return {
-			modelName: `${model.vendor}/${model.family} (${model.name})`,
-			review: response,
-			systemPrompt: config.systemPrompt,
-			reviewPerspective: config.reviewPerspective
-		};
-	} catch (error) {
-		if (error instanceof vscode.LanguageModelError) {
-			throw new Error(`VS Code LM Error: ${error.message} (${error.code})`);
+	for (let attempt = 0; attempt <= MAX_FINDINGS_REPAIR_ATTEMPTS; attempt++) {
+		const response = await sendToProvider(providerId, currentPrompt, config, undefined, token);
+		responses.push(response);
+
+		const result = parseFindings(response.text);
+		if (result.findings) {
+			return { findings: result.findings, responses };
 		}
-		throw new Error(`Failed to get review from VS Code LM: ${error}`);
+		errors = result.errors;
+		console.log(`Structured review response failed validation (attempt ${attempt + 1}):`, errors);
+		currentPrompt = buildFindingsRepairPrompt(response.text, errors);
 	}
+
+	throw new Error(`Model did not return valid review findings after ${MAX_FINDINGS_REPAIR_ATTEMPTS + 1} attempts: ${errors.join('; ')}`);
+}
+
+// Build the review result of a structured review, rendering the findings as markdown
+function buildStructuredResult(findings: ReviewFinding[], responses: LLMResponse[], config: ReviewConfig, startTime: number, onText?: (fragment: string) => void): ReviewResult {
+	const review = formatFindingsAsMarkdown(findings);
+	onText?.(review);
+
+	const lastResponse = responses[responses.length - 1];
+	return {
+		modelName: lastResponse.modelName,
+		review,
+		systemPrompt: config.systemPrompt,
+		reviewPerspective: config.reviewPerspective,
+		durationMs: Date.now() - startTime,
+		usage: sumUsage(responses),
+		stopReason: lastResponse.stopReason,
+		findings
+	};
+}
+
+// Send diff to a registered LLM provider for review
+// In structured output mode the findings are collected first and written to onText once validated
+async function reviewWithProvider(providerId: string, diff: string, config: ReviewConfig, onText?: (fragment: string) => void, token?: vscode.CancellationToken, context?: ReviewContext): Promise<ReviewResult> {
+	const startTime = Date.now();
+	const prompt = buildReviewPrompt(diff, config, context);
+	if (config.structuredOutput) {
+		const { findings, responses } = await requestFindings(providerId, prompt, config, token);
+		return buildStructuredResult(findings, responses, config, startTime, onText);
+	}
+
+	const response = await sendToProvider(providerId, prompt, config, onText, token);
+	return {
+		modelName: response.modelName,
+		review: response.text,
+		systemPrompt: config.systemPrompt,
+		reviewPerspective: config.reviewPerspective,
+		durationMs: Date.now() - startTime,
+		usage: response.usage,
+		stopReason: response.stopReason
+	};
 }
 
 // Send diff to the configured LLM provider for review
-export async function reviewWithLLM(diff: string, config: ReviewConfig): Promise<ReviewResult> {
-	switch (config.llmProvider) {
-		case 'bedrock':
-			return await reviewWithBedrock(diff, config);
-		case 'vscode-lm':
-			return await reviewWithVSCodeLM(diff, config);
-		default:
-			throw new Error(`Unknown LLM provider: ${config.llmProvider}`);
+export async function reviewWithLLM(diff: string, config: ReviewConfig, onText?: (fragment: string) => void, token?: vscode.CancellationToken, context?: ReviewContext): Promise<ReviewResult> {
+	return await reviewWithProvider(config.llmProvider, diff, config, onText, token, context);
+}
+
+// Total token usage of several requests, or undefined if no provider reported usage
+export function sumUsage(responses: Array<{ usage?: TokenUsage }>): TokenUsage | undefined {
+	const reported = responses.filter(response => response.usage);
+	if (reported.length === 0) {
+		return undefined;
 	}
+	return {
+		inputTokens: reported.reduce((total, response) => total + response.usage!.inputTokens, 0),
+		outputTokens: reported.reduce((total, response) => total + response.usage!.outputTokens, 0)
+	};
 }
 
-// Show review results in a new document
-export async function showReviewResults(reviewResult: ReviewResult, gitInfo?: any, exclusionSummary?: any, diffText?: string): Promise<void> {
-	// Store the results for export functionality FIRST
-	reviewService.setLastReviewResult(reviewResult, gitInfo, diffText);
+// Whether the diff exceeds the per-request token budget and should be reviewed in chunks
+export function needsChunkedReview(diff: string, config: ReviewConfig): boolean {
+	return config.chunkedReview && estimateTokens(diff) > config.chunkTokenBudget;
+}
+
+// Build the prompt for one chunk of a chunked review
+function buildChunkReviewPrompt(chunk: string, index: number, total: number, config: ReviewConfig, context?: ReviewContext): string {
+	return `${buildReviewPrompt(chunk, config, context)}
 
+This diff is part ${index + 1} of ${total} of a larger change. Review only the files shown here and list your findings concisely; they will be merged with the findings for the other parts.`;
+}
+
+// Build the prompt that merges the per-chunk findings into one report
+function buildSynthesisPrompt(findings: string[], config: ReviewConfig): string {
+	const sections = findings.map((finding, index) => `## Part ${index + 1}\n\n${finding}`).join('\n\n');
+
+	return `${config.systemPrompt}
+
+Review Perspective: ${config.reviewPerspective}
+
+A git diff was too large to review at once, so it was reviewed in ${findings.length} parts. The findings for each part follow:
+
+${sections}
+
+Please merge these findings into a single detailed code review. Remove duplicates, group related issues, and keep the file references and specific suggestions for improvement.`;
+}
+
+// Review a large diff chunk by chunk, then merge the findings with a final synthesis request
+// onChunk is called before each request with the number of completed chunks; completed === total means the synthesis is starting
+export async function reviewWithLLMInChunks(diff: string, config: ReviewConfig, onChunk: (completed: number, total: number) => void, onText?: (fragment: string) => void, token?: vscode.CancellationToken, context?: ReviewContext): Promise<ReviewResult> {
+	const chunks = splitDiffIntoChunks(diff, config.chunkTokenBudget);
+	if (chunks.length <= 1) {
+		return await reviewWithLLM(diff, config, onText, token, context);
+	}
+
+	const startTime = Date.now();
+
+	// Structured findings can be merged directly, without a synthesis request
+	if (config.structuredOutput) {
+		const allFindings: ReviewFinding[] = [];
+		const allResponses: LLMResponse[] = [];
+		for (let i = 0; i < chunks.length; i++) {
+			onChunk(i, chunks.length);
+			const { findings, responses } = await requestFindings(config.llmProvider, buildChunkReviewPrompt(chunks[i], i, chunks.length, config, context), config, token);
+			allFindings.push(...findings);
+			allResponses.push(...responses);
+		}
+		return buildStructuredResult(allFindings, allResponses, config, startTime, onText);
+	}
+
+	const findings: string[] = [];
+	const responses: LLMResponse[] = [];
+	for (let i = 0; i < chunks.length; i++) {
+		onChunk(i, chunks.length);
+		const response = await sendToProvider(config.llmProvider, buildChunkReviewPrompt(chunks[i], i, chunks.length, config, context), config, undefined, token);
+		findings.push(response.text);
+		responses.push(response);
+	}
+
+	onChunk(chunks.length, chunks.length);
+	const response = await sendToProvider(config.llmProvider, buildSynthesisPrompt(findings, config), config, onText, token);
+	responses.push(response);
+	return {
+		modelName: response.modelName,
+		review: response.text,
+		systemPrompt: config.systemPrompt,
+		reviewPerspective: config.reviewPerspective,
+		durationMs: Date.now() - startTime,
+		usage: sumUsage(responses),
+		stopReason: response.stopReason
+	};
+}
+
+// Build the markdown header of the review results document
+function buildResultsHeader(exclusionSummary?: any, modelName?: string): string {
 	const timestamp = new Date().toLocaleString();
 	
 	let exclusionInfo = '';
@@ -148,28 +298,119 @@ export async function showReviewResults(reviewResult: ReviewResult, gitInfo?: an
 		exclusionInfo = `\n\n**Excluded Files:** ${exclusionSummary.summary.totalFiles} files (${exclusionSummary.summary.readableTotalSize}) were excluded from review`;
 	}
 
-	const content = `# Code Review Results
+	const modelInfo = modelName ? `**Model Used:** ${modelName}  \n` : '';
+
+	return `# Code Review Results
 
-**Model Used:** ${reviewResult.modelName}  
-**Generated at:** ${timestamp}${exclusionInfo}
+${modelInfo}**Generated at:** ${timestamp}${exclusionInfo}
 
 ---
 
-${reviewResult.review}`;
+`;
+}
+
+// Results document that review text is streamed into while the provider responds
+export class ReviewDocumentWriter {
+	private pending = '';
+	private flushing: Promise<void> = Promise.resolve();
+
+	private constructor(readonly document: vscode.TextDocument) {}
+
+	// Open the results document with its header, ready for streamed text
+	static async open(exclusionSummary?: any): Promise<ReviewDocumentWriter> {
+		const doc = await vscode.workspace.openTextDocument({
+			content: buildResultsHeader(exclusionSummary),
+			language: 'markdown'
+		});
+		await vscode.window.showTextDocument(doc, { preview: false });
+		return new ReviewDocumentWriter(doc);
+	}
+
+	// Queue a fragment; fragments arriving during an edit are written together
+	// A failed edit (e.g. the document was closed) is logged so later fragments are still written
+	append(fragment: string): void {
+		this.pending += fragment;
+		this.flushing = this.flushing
+			.then(() => this.flush())
+			.catch(error => console.log('Failed to write review text to the results document:', error));
+	}
+
+	// Wait for queued text and add the model line once the model is known
+	async finish(modelName: string): Promise<void> {
+		await this.flushing;
+		const edit = new vscode.WorkspaceEdit();
+		edit.insert(this.document.uri, new vscode.Position(2, 0), `**Model Used:** ${modelName}  \n`);
+		if (!await vscode.workspace.applyEdit(edit)) {
+			console.log('Failed to add the model name to the results document');
+		}
+	}
+
+	// Mark the document as an incomplete review after cancellation
+	async cancel(): Promise<void> {
+		this.append('\n\n---\n\n*Review cancelled.*\n');
+		await this.flushing;
+	}
+
+	// Mark the document as an incomplete review after an error
+	async fail(error: unknown): Promise<void> {
+		this.append(`\n\n---\n\n*Review failed: ${error}*\n`);
+		await this.flushing;
+	}
+
+	private async flush(): Promise<void> {
+		if (!this.pending) {
+			return;
+		}
+		const text = this.pending;
+		this.pending = '';
+
+		const edit = new vscode.WorkspaceEdit();
+		edit.insert(this.document.uri, this.document.lineAt(this.document.lineCount - 1).range.end, text);
+		if (!await vscode.workspace.applyEdit(edit)) {
+			// Keep the text so that the next flush writes it
+			this.pending = text + this.pending;
+			throw new Error('The results document rejected the edit');
+		}
+	}
+}
+
+// Store a completed review for export and follow-up discussion, and show its structured findings
+// in the Problems panel and as comment threads, replacing those of the previous review
+// reviewPrompts are the prompts the review was requested with, which follow-up questions are asked on top of
+export function recordReviewResult(reviewResult: ReviewResult, gitInfo?: any, diffText?: string, config?: ReviewConfig, reviewDocument?: vscode.TextDocument, reviewPrompts?: string[]): void {
+	reviewService.setLastReviewResult(reviewResult, gitInfo, diffText, config, reviewPrompts);
+	publishReviewDiagnostics(reviewResult.findings || [], reviewResult.review, reviewDocument, gitInfo?.repositoryPath);
+	showReviewComments(reviewResult.findings || [], gitInfo?.repositoryPath);
+}
+
+// Show review results in a new document, or complete the document the review was streamed into
+export async function showReviewResults(reviewResult: ReviewResult, gitInfo?: any, exclusionSummary?: any, diffText?: string, streamedDocument?: ReviewDocumentWriter, config?: ReviewConfig, reviewPrompts?: string[]): Promise<void> {
+	let doc: vscode.TextDocument;
+	if (streamedDocument) {
+		await streamedDocument.finish(reviewResult.modelName);
+		doc = streamedDocument.document;
+	} else {
+		const content = buildResultsHeader(exclusionSummary, reviewResult.modelName) + reviewResult.review;
+
+		doc = await vscode.workspace.openTextDocument({
+			content: content,
+			language: 'markdown'
+		});
+		await vscode.window.showTextDocument(doc);
+	}
+
+	recordReviewResult(reviewResult, gitInfo, diffText, config, doc, reviewPrompts);
 
-	const doc = await vscode.workspace.openTextDocument({
-		content: content,
-		language: 'markdown'
-	});
-	await vscode.window.showTextDocument(doc);
 	// Show export options
 	const exportOption = await vscode.window.showInformationMessage(
 		'コードレビューが完了しました。結果をエクスポートしますか？',
-		'はい', 'いいえ'
+		'はい', 'いいえ', 'レビューについて質問'
 	);
 
 	if (exportOption === 'はい') {
 		vscode.commands.executeCommand('diff-lens.exportReview', reviewResult, gitInfo);
+	} else if (exportOption === 'レビューについて質問') {
+		vscode.commands.executeCommand('diff-lens.discussReview');
 	}
 }
 
@@ -178,11 +419,15 @@ class ReviewService {
 	private lastReviewResult: ReviewResult | null = null;
 	private lastGitInfo: any = null;
 	private lastDiffText: string = '';
+	private lastReviewConfig: ReviewConfig | null = null;
+	private lastReviewPrompts: string[] = [];
 
-	setLastReviewResult(reviewResult: ReviewResult, gitInfo: any, diffText?: string): void {
+	setLastReviewResult(reviewResult: ReviewResult, gitInfo: any, diffText?: string, config?: ReviewConfig, reviewPrompts?: string[]): void {
 		this.lastReviewResult = reviewResult;
 		this.lastGitInfo = gitInfo;
 		this.lastDiffText = diffText || '';
+		this.lastReviewConfig = config || null;
+		this.lastReviewPrompts = reviewPrompts || [];
 	}
 
 	getLastReviewResult(): ReviewResult | null {
@@ -196,6 +441,16 @@ class ReviewService {
 	getLastDiffText(): string {
 		return this.lastDiffText;
 	}
+
+	// Configuration the last review ran with, so follow-ups use the same provider, model and prompts
+	getLastReviewConfig(): ReviewConfig | null {
+		return this.lastReviewConfig;
+	}
+
+	// Prompts sent for the last review: one per chunk or commit, with the commit context and findings instructions
+	getLastReviewPrompts(): string[] {
+		return this.lastReviewPrompts;
+	}
 }
 
 // Export singleton instance
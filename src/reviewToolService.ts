@@ -0,0 +1,83 @@
+import * as vscode from 'vscode';
+import { ReviewResult } from './types';
+import { needsChunkedReview, reviewWithLLM, reviewWithLLMInChunks } from './reviewService';
+import { getConfigurationWithFavoritePrompt } from './configService';
+import { generateNativeGitDiff } from './diffService';
+import { getReviewContext, getSelectedRepositoryPath } from './gitService';
+import { summarizeFindings } from './findingsService';
+import { getProvider } from './providers/providerRegistry';
+
+// Language model tool that lets agents and other extensions request a DiffLens review
+
+const TOOL_NAME = 'difflens_reviewDiff';
+
+// Input of the tool, as declared in package.json
+interface ReviewDiffToolInput {
+	commitRange?: string;
+	pathFilters?: string[];
+	favoritePrompt?: string;
+}
+
+class ReviewDiffTool implements vscode.LanguageModelTool<ReviewDiffToolInput> {
+	prepareInvocation(options: vscode.LanguageModelToolInvocationPrepareOptions<ReviewDiffToolInput>): vscode.PreparedToolInvocation {
+		const range = options.input.commitRange?.trim() ? `\`${options.input.commitRange.trim()}\`` : 'the latest commit';
+		const config = vscode.workspace.getConfiguration('diffLens');
+		const providerId = config.get<string>('llmProvider', 'bedrock');
+		return {
+			invocationMessage: new vscode.MarkdownString(`Reviewing ${range} with DiffLens`),
+			confirmationMessages: {
+				title: 'Review changes with DiffLens',
+				message: new vscode.MarkdownString(`The diff of ${range} will be sent to **${getProvider(providerId)?.displayName || providerId}** for review.`)
+			}
+		};
+	}
+
+	// Review the diff in structured output mode and return the findings as JSON
+	async invoke(options: vscode.LanguageModelToolInvocationOptions<ReviewDiffToolInput>, token: vscode.CancellationToken): Promise<vscode.LanguageModelToolResult> {
+		const repositoryPath = await getSelectedRepositoryPath();
+		if (!repositoryPath) {
+			throw new Error('No git repository found. Please open a folder containing a git repository.');
+		}
+
+		const { commitRange, pathFilters, favoritePrompt } = options.input;
+		const config = getConfigurationWithFavoritePrompt(favoritePrompt);
+		config.structuredOutput = true;
+		if (pathFilters && pathFilters.length > 0) {
+			config.fileExtensions = pathFilters.join(',');
+		}
+
+		const diffResult = await generateNativeGitDiff(
+			repositoryPath,
+			commitRange?.trim() || null,
+			config.contextLines,
+			config.excludeDeletes,
+			config.fileExtensions,
+			config,
+			token
+		);
+
+		const reviewContext = config.includeCommitContext ? await getReviewContext(repositoryPath, commitRange?.trim() || null) : undefined;
+
+		let reviewResult: ReviewResult;
+		if (needsChunkedReview(diffResult.diff, config)) {
+			reviewResult = await reviewWithLLMInChunks(diffResult.diff, config, () => {}, undefined, token, reviewContext);
+		} else {
+			reviewResult = await reviewWithLLM(diffResult.diff, config, undefined, token, reviewContext);
+		}
+
+		const findings = reviewResult.findings || [];
+		return new vscode.LanguageModelToolResult([
+			new vscode.LanguageModelTextPart(JSON.stringify({
+				model: reviewResult.modelName,
+				summary: summarizeFindings(findings),
+				findings,
+				excludedFiles: diffResult.exclusionSummary?.summary.totalFiles || 0
+			}, null, 2))
+		]);
+	}
+}
+
+// Register the review tool with the language model API
+export function registerReviewTool(): vscode.Disposable {
+	return vscode.lm.registerTool(TOOL_NAME, new ReviewDiffTool());
+}
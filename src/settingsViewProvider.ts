@@ -3,6 +3,10 @@ import * as os from 'os';
 import * as path from 'path';
 import { FavoritePromptsService } from './favoritePromptsService';
 import { LanguageService } from './languageService';
+import { getRegisteredProviders } from './providers/providerRegistry';
+import { describeRepositoryPath, getSelectedRepositoryPath, onDidChangeSelectedRepository, setSelectedRepositoryPath } from './gitService';
+import { STAGED_CHANGES_TARGET, WORKING_TREE_CHANGES_TARGET } from './types';
+import { getDebugOutputChannel } from './logger';
 
 // VS Code Git API types (duplicate from extension.ts for self-contained provider)
 interface GitAPI {
@@ -15,7 +19,7 @@ interface Repository {
 	state: RepositoryState;
 	getCommit(ref: string): Promise<Commit>;
 	log(options?: LogOptions): Promise<Commit[]>;
-	diff(cached?: boolean): Promise<Change[]>;
+	diff(cached?: boolean): Promise<string>;
 	diffWith(ref: string, path?: string): Promise<Change[]>;
 	diffBetween(ref1: string, ref2: string, path?: string): Promise<Change[]>;
 	getBranch?(name: string): Promise<Branch>;
@@ -24,6 +28,9 @@ interface Repository {
 
 interface RepositoryState {
 	HEAD: Branch | undefined;
+	indexChanges: Change[];
+	workingTreeChanges: Change[];
+	untrackedChanges?: Change[];
 }
 
 interface Branch {
@@ -162,6 +169,23 @@ async function getRemoteBranchMapping(repository: any): Promise<Map<string, stri
 	}
 }
 
+// Get branch and tag names for the base/target ref pickers
+async function getRefNames(repository: any): Promise<{ branches: string[]; tags: string[] }> {
+	try {
+		const refs: any[] = typeof repository.getRefs === 'function'
+			? await repository.getRefs({ sort: 'committerdate' })
+			: (repository.state?.refs || []);
+
+		// RefType.Head = 0, RefType.RemoteHead = 1, RefType.Tag = 2
+		const branches = refs.filter(ref => (ref.type === 0 || ref.type === 1) && ref.name).map(ref => ref.name as string);
+		const tags = refs.filter(ref => ref.type === 2 && ref.name).map(ref => ref.name as string);
+		return { branches: branches.slice(0, 100), tags: tags.slice(0, 100) };
+	} catch (error) {
+		console.log('Failed to get refs via Git API:', error);
+		return { branches: [], tags: [] };
+	}
+}
+
 
 
 export class SettingsViewProvider implements vscode.WebviewViewProvider {
@@ -223,18 +247,26 @@ export class SettingsViewProvider implements vscode.WebviewViewProvider {
                         console.log('Processing refreshBranchInfo message');
                         this._refreshBranchInfo();
                         return;
+                    case 'selectRepository':
+                        console.log('Processing selectRepository message');
+                        setSelectedRepositoryPath(message.repositoryPath);
+                        return;
                     case 'previewDiff':
                         console.log('Processing previewDiff message');
                         vscode.commands.executeCommand('diff-lens.previewDiff', message.selectedCommit);
                         return;
                     case 'runCodeReview':
                         console.log('Processing runCodeReview message');
-                        vscode.commands.executeCommand('diff-lens.reviewCode', message.selectedCommit, message.prompts);
+                        vscode.commands.executeCommand('diff-lens.reviewCode', message.selectedCommit, message.prompts, message.commitByCommit);
                         return;
                     case 'loadVSCodeFamilies':
                         console.log('Processing loadVSCodeFamilies message');
                         this._loadVSCodeFamilies();
                         return;
+                    case 'loadOllamaModels':
+                        console.log('Processing loadOllamaModels message');
+                        this._loadOllamaModels(message.baseUrl);
+                        return;
                     case 'saveFavoritePrompt':
                         console.log('Processing saveFavoritePrompt message');
                         this._saveFavoritePrompt(message.data);
@@ -271,6 +303,10 @@ export class SettingsViewProvider implements vscode.WebviewViewProvider {
             []
         );
 
+        // Show the repository picked here or with "DiffLens: Select Repository"
+        const repositorySubscription = onDidChangeSelectedRepository(() => this._refreshBranchInfo());
+        webviewView.onDidDispose(() => repositorySubscription.dispose());
+
         // Monitor visibility changes to refresh Git data when webview becomes visible
         webviewView.onDidChangeVisibility(() => {
             if (webviewView.visible) {
@@ -318,7 +354,7 @@ export class SettingsViewProvider implements vscode.WebviewViewProvider {
             });
             
             // Also show in VS Code output for easier debugging
-            const outputChannel = vscode.window.createOutputChannel('DiffLens Debug');
+            const outputChannel = getDebugOutputChannel();
             outputChannel.appendLine(`[${new Date().toISOString()}] Saving settings:`);
             outputChannel.appendLine(`  System Prompt: ${settings.systemPrompt ? '***SET***' : 'EMPTY'}`);
             outputChannel.appendLine(`  Review Perspective: ${settings.reviewPerspective ? '***SET***' : 'EMPTY'}`);
@@ -332,6 +368,13 @@ export class SettingsViewProvider implements vscode.WebviewViewProvider {
             outputChannel.appendLine(`  Model Name: ${settings.modelName}`);
             outputChannel.appendLine(`  VS Code LM Vendor: ${settings.vscodeLmVendor}`);
             outputChannel.appendLine(`  VS Code LM Family: ${settings.vscodeLmFamily} (SAVING THIS VALUE)`);
+            outputChannel.appendLine(`  OpenAI Base URL: ${settings.openaiBaseUrl}`);
+            outputChannel.appendLine(`  OpenAI API Key: ${settings.openaiApiKey ? '***SET***' : 'EMPTY'}`);
+            outputChannel.appendLine(`  OpenAI Model: ${settings.openaiModel}`);
+            outputChannel.appendLine(`  Ollama Base URL: ${settings.ollamaBaseUrl}`);
+            outputChannel.appendLine(`  Ollama Model: ${settings.ollamaModel}`);
+            outputChannel.appendLine(`  Anthropic API Key: ${settings.anthropicApiKey ? '***SET***' : 'EMPTY'}`);
+            outputChannel.appendLine(`  Anthropic Model: ${settings.anthropicModel}`);
             outputChannel.show();
             
             console.log('About to save VS Code LM Family:', settings.vscodeLmFamily);
@@ -344,6 +387,7 @@ export class SettingsViewProvider implements vscode.WebviewViewProvider {
                 config.update('systemPrompt', settings.systemPrompt, vscode.ConfigurationTarget.Global),
                 config.update('reviewPerspective', settings.reviewPerspective, vscode.ConfigurationTarget.Global),
                 config.update('contextLines', settings.contextLines, vscode.ConfigurationTarget.Global),
+                config.update('smartContext', settings.smartContext, vscode.ConfigurationTarget.Global),
                 config.update('excludeDeletes', settings.excludeDeletes, vscode.ConfigurationTarget.Global),
                 config.update('fileExtensions', settings.fileExtensions, vscode.ConfigurationTarget.Global),
                 config.update('llmProvider', settings.llmProvider, vscode.ConfigurationTarget.Global),
@@ -353,18 +397,45 @@ export class SettingsViewProvider implements vscode.WebviewViewProvider {
                 config.update('modelName', settings.modelName, vscode.ConfigurationTarget.Global),
                 config.update('vscodeLmVendor', 'copilot', vscode.ConfigurationTarget.Global),
                 config.update('vscodeLmFamily', settings.vscodeLmFamily, vscode.ConfigurationTarget.Global),
+                config.update('openaiBaseUrl', settings.openaiBaseUrl, vscode.ConfigurationTarget.Global),
+                config.update('openaiApiKey', settings.openaiApiKey, vscode.ConfigurationTarget.Global),
+                config.update('openaiModel', settings.openaiModel, vscode.ConfigurationTarget.Global),
+                config.update('openaiTemperature', settings.openaiTemperature, vscode.ConfigurationTarget.Global),
+                config.update('ollamaBaseUrl', settings.ollamaBaseUrl, vscode.ConfigurationTarget.Global),
+                config.update('ollamaModel', settings.ollamaModel, vscode.ConfigurationTarget.Global),
+                config.update('anthropicApiKey', settings.anthropicApiKey, vscode.ConfigurationTarget.Global),
+                config.update('anthropicModel', settings.anthropicModel, vscode.ConfigurationTarget.Global),
+                config.update('anthropicMaxTokens', settings.anthropicMaxTokens, vscode.ConfigurationTarget.Global),
+                config.update('chunkedReview', settings.chunkedReview, vscode.ConfigurationTarget.Global),
+                config.update('chunkTokenBudget', settings.chunkTokenBudget, vscode.ConfigurationTarget.Global),
+                config.update('confirmTokenThreshold', settings.confirmTokenThreshold, vscode.ConfigurationTarget.Global),
+                config.update('structuredOutput', settings.structuredOutput, vscode.ConfigurationTarget.Global),
+                config.update('includeCommitContext', settings.includeCommitContext, vscode.ConfigurationTarget.Global),
                 
-                // Workspace settings (non-AWS settings only, as AWS keys have "scope": "application")
+                // Workspace settings (non-secret settings only, as API keys have "scope": "application")
                 config.update('systemPrompt', settings.systemPrompt, vscode.ConfigurationTarget.Workspace),
                 config.update('reviewPerspective', settings.reviewPerspective, vscode.ConfigurationTarget.Workspace),
                 config.update('contextLines', settings.contextLines, vscode.ConfigurationTarget.Workspace),
+                config.update('smartContext', settings.smartContext, vscode.ConfigurationTarget.Workspace),
                 config.update('excludeDeletes', settings.excludeDeletes, vscode.ConfigurationTarget.Workspace),
                 config.update('fileExtensions', settings.fileExtensions, vscode.ConfigurationTarget.Workspace),
                 config.update('llmProvider', settings.llmProvider, vscode.ConfigurationTarget.Workspace),
                 config.update('awsRegion', settings.awsRegion, vscode.ConfigurationTarget.Workspace),
                 config.update('modelName', settings.modelName, vscode.ConfigurationTarget.Workspace),
                 config.update('vscodeLmVendor', 'copilot', vscode.ConfigurationTarget.Workspace),
-                config.update('vscodeLmFamily', settings.vscodeLmFamily, vscode.ConfigurationTarget.Workspace)
+                config.update('vscodeLmFamily', settings.vscodeLmFamily, vscode.ConfigurationTarget.Workspace),
+                config.update('openaiBaseUrl', settings.openaiBaseUrl, vscode.ConfigurationTarget.Workspace),
+                config.update('openaiModel', settings.openaiModel, vscode.ConfigurationTarget.Workspace),
+                config.update('openaiTemperature', settings.openaiTemperature, vscode.ConfigurationTarget.Workspace),
+                config.update('ollamaBaseUrl', settings.ollamaBaseUrl, vscode.ConfigurationTarget.Workspace),
+                config.update('ollamaModel', settings.ollamaModel, vscode.ConfigurationTarget.Workspace),
+                config.update('anthropicModel', settings.anthropicModel, vscode.ConfigurationTarget.Workspace),
+                config.update('anthropicMaxTokens', settings.anthropicMaxTokens, vscode.ConfigurationTarget.Workspace),
+                config.update('chunkedReview', settings.chunkedReview, vscode.ConfigurationTarget.Workspace),
+                config.update('chunkTokenBudget', settings.chunkTokenBudget, vscode.ConfigurationTarget.Workspace),
+                config.update('confirmTokenThreshold', settings.confirmTokenThreshold, vscode.ConfigurationTarget.Workspace),
+                config.update('structuredOutput', settings.structuredOutput, vscode.ConfigurationTarget.Workspace),
+                config.update('includeCommitContext', settings.includeCommitContext, vscode.ConfigurationTarget.Workspace)
             ]);
 
             console.log('Settings saved successfully');
@@ -403,6 +474,7 @@ export class SettingsViewProvider implements vscode.WebviewViewProvider {
         
         const settings = {
             contextLines: config.get('contextLines', 50),
+            smartContext: config.get('smartContext', false),
             excludeDeletes: config.get('excludeDeletes', true),
             fileExtensions: config.get('fileExtensions', ''),
             llmProvider: config.get('llmProvider', 'bedrock'),
@@ -412,6 +484,20 @@ export class SettingsViewProvider implements vscode.WebviewViewProvider {
             modelName: config.get('modelName', 'anthropic.claude-3-5-sonnet-20241022-v2:0'),
             vscodeLmVendor: config.get('vscodeLmVendor', 'copilot'),
             vscodeLmFamily: config.get('vscodeLmFamily', 'gpt-4o'),
+            openaiBaseUrl: config.get('openaiBaseUrl', 'http://localhost:8000/v1'),
+            openaiApiKey: config.get('openaiApiKey', ''),
+            openaiModel: config.get('openaiModel', ''),
+            openaiTemperature: config.get('openaiTemperature', 0.2),
+            ollamaBaseUrl: config.get('ollamaBaseUrl', 'http://localhost:11434'),
+            ollamaModel: config.get('ollamaModel', ''),
+            anthropicApiKey: config.get('anthropicApiKey', ''),
+            anthropicModel: config.get('anthropicModel', 'claude-3-5-sonnet-latest'),
+            anthropicMaxTokens: config.get('anthropicMaxTokens', 4000),
+            chunkedReview: config.get('chunkedReview', true),
+            chunkTokenBudget: config.get('chunkTokenBudget', 12000),
+            confirmTokenThreshold: config.get('confirmTokenThreshold', 50000),
+            structuredOutput: config.get('structuredOutput', false),
+            includeCommitContext: config.get('includeCommitContext', false),
             interfaceLanguage: config.get('interfaceLanguage', 'en')
         };
 
@@ -440,8 +526,7 @@ export class SettingsViewProvider implements vscode.WebviewViewProvider {
         }
 
         try {
-            const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-            if (!workspaceFolder) {
+            if (!vscode.workspace.workspaceFolders?.length) {
                 this._view.webview.postMessage({
                     command: 'branchInfoUpdated',
                     branchInfo: {
@@ -451,8 +536,7 @@ export class SettingsViewProvider implements vscode.WebviewViewProvider {
                 return;
             }
 
-            const workspacePath = workspaceFolder.uri.fsPath;
-            console.log('Refreshing branch info for workspace:', workspacePath, 'forceRefresh:', forceRefresh);
+            console.log('Refreshing branch info, forceRefresh:', forceRefresh);
 
             // Use VS Code Git API to verify repository and get information
             let gitAPI = await this._getGitAPI(forceRefresh);
@@ -476,35 +560,21 @@ export class SettingsViewProvider implements vscode.WebviewViewProvider {
                 return;
             }
 
-            const gitRepo = gitAPI.getRepository(workspaceFolder.uri);
-            if (!gitRepo) {
-                // Try to find repository in the workspace
-                const foundRepository = gitAPI.repositories.find((repo: Repository) => 
-                    workspacePath.startsWith(repo.rootUri.fsPath) ||
-                    repo.rootUri.fsPath.startsWith(workspacePath)
-                );
-
-                if (!foundRepository) {
-                    this._view.webview.postMessage({
-                        command: 'branchInfoUpdated',
-                        branchInfo: {
-                            error: 'Not a git repository'
-                        }
-                    });
-                    return;
-                }
-            }
-
-            const repo = gitRepo || gitAPI.repositories.find((repo: Repository) => 
-                workspacePath.startsWith(repo.rootUri.fsPath) ||
-                repo.rootUri.fsPath.startsWith(workspacePath)
-            );
+            // Every repository the Git extension opened, including submodules, is offered in the picker
+            const repositoryPaths = gitAPI.repositories.map((repo: Repository) => repo.rootUri.fsPath);
+            const repositories = repositoryPaths.map(repositoryPath => ({
+                path: repositoryPath,
+                name: describeRepositoryPath(repositoryPath, repositoryPaths)
+            }));
 
+            const repositoryPath = await getSelectedRepositoryPath();
+            const repo = gitAPI.repositories.find((repo: Repository) => repo.rootUri.fsPath === repositoryPath);
             if (!repo) {
                 this._view.webview.postMessage({
                     command: 'branchInfoUpdated',
                     branchInfo: {
-                        error: 'Not a git repository'
+                        error: 'Not a git repository',
+                        repositories
                     }
                 });
                 return;
@@ -585,13 +655,16 @@ export class SettingsViewProvider implements vscode.WebviewViewProvider {
             // Combine commit history (which now includes remote branch info) 
             const comparisonOptions = [...commitHistory];
 
+            // Branches and tags for the base/target ref pickers
+            const refNames = repo ? await getRefNames(repo) : { branches: [], tags: [] };
+
             // Get repository status - use VS Code API
             let status = '';
             if (repo) {
                 try {
-                    const changes = await repo.diff();
-                    if (changes.length > 0) {
-                        status = `${changes.length} uncommitted changes`;
+                    const changeCount = repo.state.indexChanges.length + repo.state.workingTreeChanges.length + (repo.state.untrackedChanges?.length || 0);
+                    if (changeCount > 0) {
+                        status = `${changeCount} uncommitted changes`;
                     } else {
                         status = 'Clean working directory';
                     }
@@ -613,7 +686,11 @@ export class SettingsViewProvider implements vscode.WebviewViewProvider {
                     currentBranch: currentBranch + apiIndicator,
                     latestCommit: latestCommit,
                     status: status,
-                    commitHistory: comparisonOptions
+                    commitHistory: comparisonOptions,
+                    branches: refNames.branches,
+                    tags: refNames.tags,
+                    repositories,
+                    selectedRepository: repositoryPath
                 }
             });
 
@@ -980,6 +1057,16 @@ export class SettingsViewProvider implements vscode.WebviewViewProvider {
                     </small>
                 </div>
                 
+                <div class="form-group">
+                    <label>
+                        <input type="checkbox" id="smartContext">
+                        ${this._getMessage('diff.smartContext')}
+                    </label>
+                    <small style="color: var(--vscode-descriptionForeground); display: block; margin-top: 5px;">
+                        ${this._getMessage('diff.smartContextDesc')}
+                    </small>
+                </div>
+                
                 <div class="form-group">
                     <label>
                         <input type="checkbox" id="excludeDeletes" checked>
@@ -997,6 +1084,32 @@ export class SettingsViewProvider implements vscode.WebviewViewProvider {
                         ${this._getMessage('diff.fileExtensionsDesc')}
                     </small>
                 </div>
+                
+                <div class="form-group">
+                    <label>
+                        <input type="checkbox" id="chunkedReview" checked>
+                        ${this._getMessage('diff.chunkedReview')}
+                    </label>
+                    <small style="color: var(--vscode-descriptionForeground); display: block; margin-top: 5px;">
+                        ${this._getMessage('diff.chunkedReviewDesc')}
+                    </small>
+                </div>
+                
+                <div class="form-group">
+                    <label for="chunkTokenBudget">${this._getMessage('diff.chunkTokenBudget')}</label>
+                    <input type="number" id="chunkTokenBudget" min="1000" placeholder="12000">
+                    <small style="color: var(--vscode-descriptionForeground); display: block; margin-top: 5px;">
+                        ${this._getMessage('diff.chunkTokenBudgetDesc')}
+                    </small>
+                </div>
+                
+                <div class="form-group">
+                    <label for="confirmTokenThreshold">${this._getMessage('diff.confirmTokenThreshold')}</label>
+                    <input type="number" id="confirmTokenThreshold" min="0" placeholder="50000">
+                    <small style="color: var(--vscode-descriptionForeground); display: block; margin-top: 5px;">
+                        ${this._getMessage('diff.confirmTokenThresholdDesc')}
+                    </small>
+                </div>
             </div>
         </div>
 
@@ -1051,14 +1164,29 @@ export class SettingsViewProvider implements vscode.WebviewViewProvider {
                 <div class="form-group">
                     <label for="llmProvider">${this._getMessage('llm.provider')}</label>
                     <select id="llmProvider" onchange="toggleProviderSettings()">
-                        <option value="bedrock">AWS Bedrock</option>
-                        <option value="vscode-lm">VS Code Language Model API</option>
+                        ${getRegisteredProviders().map(provider => `<option value="${provider.id}">${provider.displayName}</option>`).join('\n                        ')}
                     </select>
                     <small class="help-text">${this._getMessage('llm.providerDesc')}</small>
                 </div>
 
+                <div class="form-group">
+                    <label>
+                        <input type="checkbox" id="structuredOutput">
+                        ${this._getMessage('llm.structuredOutput')}
+                    </label>
+                    <small class="help-text">${this._getMessage('llm.structuredOutputDesc')}</small>
+                </div>
+
+                <div class="form-group">
+                    <label>
+                        <input type="checkbox" id="includeCommitContext">
+                        ${this._getMessage('llm.includeCommitContext')}
+                    </label>
+                    <small class="help-text">${this._getMessage('llm.includeCommitContextDesc')}</small>
+                </div>
+
                 <!-- AWS Configuration Section -->
-                <div id="bedrockConfig" style="margin-top: 20px;">
+                <div id="bedrockConfig" class="provider-config" data-provider="bedrock" style="margin-top: 20px;">
                     <div class="section-title">${this._getMessage('section.awsConfig')}</div>
                     
                     <div id="bedrockFields">
@@ -1134,7 +1262,7 @@ export class SettingsViewProvider implements vscode.WebviewViewProvider {
                 </div>
 
                 <!-- VS Code LM Configuration Section -->
-                <div id="vscodeLmConfig" style="display: none; margin-top: 20px;">
+                <div id="vscodeLmConfig" class="provider-config" data-provider="vscode-lm" style="display: none; margin-top: 20px;">
                     <div class="section-title">${this._getMessage('section.vscodeLmConfig')}</div>
                     
                     <div class="form-group">
@@ -1155,6 +1283,92 @@ export class SettingsViewProvider implements vscode.WebviewViewProvider {
                         </small>
                     </div>
                 </div>
+
+                <!-- OpenAI Compatible API Configuration Section -->
+                <div id="openaiConfig" class="provider-config" data-provider="openai-compatible" style="display: none; margin-top: 20px;">
+                    <div class="section-title">${this._getMessage('section.openaiConfig')}</div>
+                    
+                    <div class="form-group">
+                        <label for="openaiBaseUrl">${this._getMessage('openai.baseUrl')}</label>
+                        <input type="text" id="openaiBaseUrl" placeholder="http://localhost:8000/v1">
+                        <small style="color: var(--vscode-descriptionForeground); display: block; margin-top: 5px;">
+                            ${this._getMessage('openai.baseUrlDesc')}
+                        </small>
+                    </div>
+                    
+                    <div class="form-group">
+                        <label for="openaiApiKey">${this._getMessage('openai.apiKey')}</label>
+                        <input type="password" id="openaiApiKey" placeholder="${this._getMessage('openai.apiKeyPlaceholder')}">
+                    </div>
+                    
+                    <div class="form-group">
+                        <label for="openaiModel">${this._getMessage('openai.model')}</label>
+                        <input type="text" id="openaiModel" placeholder="${this._getMessage('openai.modelPlaceholder')}">
+                    </div>
+                    
+                    <div class="form-group">
+                        <label for="openaiTemperature">${this._getMessage('openai.temperature')}</label>
+                        <input type="number" id="openaiTemperature" min="0" max="2" step="0.1" placeholder="0.2">
+                        <small style="color: var(--vscode-descriptionForeground); display: block; margin-top: 5px;">
+                            ${this._getMessage('openai.temperatureDesc')}
+                        </small>
+                    </div>
+                </div>
+
+                <!-- Ollama Configuration Section -->
+                <div id="ollamaConfig" class="provider-config" data-provider="ollama" style="display: none; margin-top: 20px;">
+                    <div class="section-title">${this._getMessage('section.ollamaConfig')}</div>
+                    
+                    <div class="form-group">
+                        <label for="ollamaBaseUrl">${this._getMessage('ollama.baseUrl')}</label>
+                        <input type="text" id="ollamaBaseUrl" placeholder="http://localhost:11434">
+                        <small style="color: var(--vscode-descriptionForeground); display: block; margin-top: 5px;">
+                            ${this._getMessage('ollama.baseUrlDesc')}
+                        </small>
+                    </div>
+                    
+                    <div class="form-group">
+                        <label for="ollamaModel">${this._getMessage('ollama.model')}</label>
+                        <div style="display: flex; gap: 10px; align-items: center;">
+                            <select id="ollamaModel" style="flex: 1;"></select>
+                            <button class="secondary" onclick="loadOllamaModels(); return false;" style="margin: 0; flex-shrink: 0;">${this._getMessage('button.refresh')}</button>
+                        </div>
+                        <small style="color: var(--vscode-descriptionForeground); display: block; margin-top: 5px;">
+                            ${this._getMessage('ollama.modelDesc')}
+                        </small>
+                    </div>
+                </div>
+
+                <!-- Anthropic API Configuration Section -->
+                <div id="anthropicConfig" class="provider-config" data-provider="anthropic" style="display: none; margin-top: 20px;">
+                    <div class="section-title">${this._getMessage('section.anthropicConfig')}</div>
+                    
+                    <div class="form-group">
+                        <label for="anthropicApiKey">${this._getMessage('anthropic.apiKey')}</label>
+                        <input type="password" id="anthropicApiKey" placeholder="${this._getMessage('anthropic.apiKeyPlaceholder')}">
+                    </div>
+                    
+                    <div class="form-group">
+                        <label for="anthropicModel">${this._getMessage('anthropic.model')}</label>
+                        <input type="text" id="anthropicModel" list="anthropicModelOptions" placeholder="claude-3-5-sonnet-latest">
+                        <datalist id="anthropicModelOptions">
+                            <option value="claude-3-5-sonnet-latest">Claude 3.5 Sonnet (Latest)</option>
+                            <option value="claude-3-5-haiku-latest">Claude 3.5 Haiku (Latest)</option>
+                            <option value="claude-3-opus-latest">Claude 3 Opus (Latest)</option>
+                        </datalist>
+                        <small style="color: var(--vscode-descriptionForeground); display: block; margin-top: 5px;">
+                            ${this._getMessage('anthropic.modelDesc')}
+                        </small>
+                    </div>
+                    
+                    <div class="form-group">
+                        <label for="anthropicMaxTokens">${this._getMessage('anthropic.maxTokens')}</label>
+                        <input type="number" id="anthropicMaxTokens" min="1" placeholder="4000">
+                        <small style="color: var(--vscode-descriptionForeground); display: block; margin-top: 5px;">
+                            ${this._getMessage('anthropic.maxTokensDesc')}
+                        </small>
+                    </div>
+                </div>
                 
             </div>
         </div>
@@ -1184,6 +1398,10 @@ export class SettingsViewProvider implements vscode.WebviewViewProvider {
 
     <div class="section" style="display: ${this._settingsVisible ? 'none' : 'block'};">
         <div class="section-title">${this._getMessage('section.gitInfo')}</div>
+        <div class="form-group" id="repositoryGroup" style="display: none;">
+            <label for="repositorySelect">${this._getMessage('git.repository')}</label>
+            <select id="repositorySelect" onchange="selectRepository()"></select>
+        </div>
         <div id="branchInfo">
             <div class="info-item">
                 <span class="info-label">${this._getMessage('git.currentBranch')}</span>
@@ -1205,8 +1423,37 @@ export class SettingsViewProvider implements vscode.WebviewViewProvider {
             <label for="compareCommit">${this._getMessage('git.compareCommit')}</label>
             <select id="compareCommit">
                 <option value="">${this._getMessage('git.selectCommit')}</option>
+                <option value="${STAGED_CHANGES_TARGET}">${this._getMessage('git.stagedChanges')}</option>
+                <option value="${WORKING_TREE_CHANGES_TARGET}">${this._getMessage('git.workingTreeChanges')}</option>
             </select>
         </div>
+        <div class="form-group">
+            <label for="baseRef">${this._getMessage('git.baseRef')}</label>
+            <input type="text" id="baseRef" list="gitRefOptions" placeholder="${this._getMessage('git.baseRefPlaceholder')}">
+        </div>
+        <div class="form-group">
+            <label for="targetRef">${this._getMessage('git.targetRef')}</label>
+            <input type="text" id="targetRef" list="gitRefOptions" placeholder="HEAD">
+            <datalist id="gitRefOptions"></datalist>
+        </div>
+        <div class="form-group">
+            <label>
+                <input type="checkbox" id="mergeBase">
+                ${this._getMessage('git.mergeBase')}
+            </label>
+            <small style="color: var(--vscode-descriptionForeground); display: block; margin-top: 5px;">
+                ${this._getMessage('git.mergeBaseDesc')}
+            </small>
+        </div>
+        <div class="form-group">
+            <label>
+                <input type="checkbox" id="commitByCommit">
+                ${this._getMessage('git.commitByCommit')}
+            </label>
+            <small style="color: var(--vscode-descriptionForeground); display: block; margin-top: 5px;">
+                ${this._getMessage('git.commitByCommitDesc')}
+            </small>
+        </div>
         <div class="buttons">
             <button class="secondary" onclick="refreshBranchInfo()">${this._getMessage('button.refresh')}</button>
             <button class="secondary" onclick="previewDiff()">${this._getMessage('button.preview')}</button>
@@ -1272,6 +1519,10 @@ export class SettingsViewProvider implements vscode.WebviewViewProvider {
                 <span class="codicon codicon-file-code"></span>
                 ${this._getMessage('export.htmlButton')}
             </button>
+            <button onclick="exportReviewJSON()">
+                <span class="codicon codicon-json"></span>
+                ${this._getMessage('export.jsonButton')}
+            </button>
         </div>
     </div>
 
@@ -1327,17 +1578,34 @@ export class SettingsViewProvider implements vscode.WebviewViewProvider {
         }
 
         function saveSettings() {
+            const openaiTemperature = parseFloat(document.getElementById('openaiTemperature').value);
+            const confirmTokenThreshold = parseInt(document.getElementById('confirmTokenThreshold').value);
             const settings = {
                 contextLines: parseInt(document.getElementById('contextLines').value) || 50,
+                smartContext: document.getElementById('smartContext').checked,
                 excludeDeletes: document.getElementById('excludeDeletes').checked,
                 fileExtensions: document.getElementById('fileExtensions').value,
+                chunkedReview: document.getElementById('chunkedReview').checked,
+                chunkTokenBudget: parseInt(document.getElementById('chunkTokenBudget').value) || 12000,
+                confirmTokenThreshold: confirmTokenThreshold >= 0 ? confirmTokenThreshold : 50000,
                 llmProvider: document.getElementById('llmProvider').value,
+                structuredOutput: document.getElementById('structuredOutput').checked,
+                includeCommitContext: document.getElementById('includeCommitContext').checked,
                 awsAccessKey: document.getElementById('awsAccessKey').value,
                 awsSecretKey: document.getElementById('awsSecretKey').value,
                 awsRegion: document.getElementById('awsRegion').value,
                 modelName: document.getElementById('modelName').value,
                 vscodeLmVendor: 'copilot',  // Fixed to copilot
                 vscodeLmFamily: document.getElementById('vscodeLmFamily').value,
+                openaiBaseUrl: document.getElementById('openaiBaseUrl').value,
+                openaiApiKey: document.getElementById('openaiApiKey').value,
+                openaiModel: document.getElementById('openaiModel').value,
+                openaiTemperature: isNaN(openaiTemperature) ? 0.2 : openaiTemperature,
+                ollamaBaseUrl: document.getElementById('ollamaBaseUrl').value,
+                ollamaModel: document.getElementById('ollamaModel').value,
+                anthropicApiKey: document.getElementById('anthropicApiKey').value,
+                anthropicModel: document.getElementById('anthropicModel').value,
+                anthropicMaxTokens: parseInt(document.getElementById('anthropicMaxTokens').value) || 4000,
                 // New settings
                 maxFileSize: parseInt(document.getElementById('maxFileSize').value) || 10,
                 fileSizeUnit: 'MB', // Fixed to MB
@@ -1375,28 +1643,46 @@ export class SettingsViewProvider implements vscode.WebviewViewProvider {
 
         function toggleProviderSettings() {
             const provider = document.getElementById('llmProvider').value;
-            const bedrockConfig = document.getElementById('bedrockConfig');
-            const bedrockFields = document.getElementById('bedrockFields');
-            const vscodeLmConfig = document.getElementById('vscodeLmConfig');
             
-            if (provider === 'bedrock') {
-                bedrockConfig.style.display = 'block';
-                bedrockFields.style.display = 'block';
-                vscodeLmConfig.style.display = 'none';
-            } else if (provider === 'vscode-lm') {
-                bedrockConfig.style.display = 'none';
-                bedrockFields.style.display = 'none';
-                vscodeLmConfig.style.display = 'block';
-                
+            // Show only the configuration section of the selected provider
+            document.querySelectorAll('.provider-config').forEach(section => {
+                section.style.display = section.getAttribute('data-provider') === provider ? 'block' : 'none';
+            });
+            
+            if (provider === 'vscode-lm') {
                 // Auto-refresh VS Code LM families when switching to vscode-lm provider
                 setTimeout(() => {
                     loadVSCodeFamilies();
                 }, 100);
+            } else if (provider === 'ollama') {
+                // Discover installed models when switching to the ollama provider
+                setTimeout(() => {
+                    loadOllamaModels();
+                }, 100);
+            }
+        }
+
+        // Build the comparison from the ref pickers: a commit, "base..target" or "base...target"
+        function getComparison() {
+            const base = document.getElementById('baseRef').value.trim() || document.getElementById('compareCommit').value;
+            const target = document.getElementById('targetRef').value.trim();
+            const mergeBase = document.getElementById('mergeBase').checked;
+
+            if (base === '${STAGED_CHANGES_TARGET}' || base === '${WORKING_TREE_CHANGES_TARGET}') {
+                return base;
+            }
+            if (!base) {
+                // Without a base, review the latest commit of the target
+                return target ? target + '~1..' + target : null;
             }
+            if (!target && !mergeBase) {
+                return base;
+            }
+            return base + (mergeBase ? '...' : '..') + (target || 'HEAD');
         }
 
         function previewDiff() {
-            const selectedCommit = document.getElementById('compareCommit').value;
+            const selectedCommit = getComparison();
             vscode.postMessage({
                 command: 'previewDiff',
                 selectedCommit: selectedCommit || null
@@ -1404,7 +1690,7 @@ export class SettingsViewProvider implements vscode.WebviewViewProvider {
         }
 
         function runCodeReview() {
-            const selectedCommit = document.getElementById('compareCommit').value;
+            const selectedCommit = getComparison();
             const prompts = {
                 systemPrompt: document.getElementById('currentSystemPrompt').value,
                 reviewPerspective: document.getElementById('currentReviewPerspective').value
@@ -1413,7 +1699,8 @@ export class SettingsViewProvider implements vscode.WebviewViewProvider {
             vscode.postMessage({
                 command: 'runCodeReview',
                 selectedCommit: selectedCommit || null,
-                prompts: prompts
+                prompts: prompts,
+                commitByCommit: document.getElementById('commitByCommit').checked
             });
         }
 
@@ -1430,6 +1717,18 @@ export class SettingsViewProvider implements vscode.WebviewViewProvider {
             });
         }
 
+        function exportReviewJSON() {
+            const autoTimestamp = document.getElementById('autoTimestamp').checked;
+            
+            vscode.postMessage({
+                command: 'exportReview',
+                format: 'json',
+                options: {
+                    autoTimestamp: autoTimestamp
+                }
+            });
+        }
+
 
 
         // Message handling for responses from extension
@@ -1525,6 +1824,9 @@ export class SettingsViewProvider implements vscode.WebviewViewProvider {
                     // Keep the data attribute for debugging
                     console.log('Final VS Code LM family value after update:', vscodeLmFamilySelect.value);
                     break;
+                case 'ollamaModelsLoaded':
+                    updateOllamaModelSelect(message.models);
+                    break;
                 case 'favoritePromptsLoaded':
                     updateFavoritePromptSelect(message.prompts);
                     break;
@@ -1575,15 +1877,31 @@ export class SettingsViewProvider implements vscode.WebviewViewProvider {
             
             // Load other settings
             document.getElementById('contextLines').value = settings.contextLines || 50;
+            document.getElementById('smartContext').checked = settings.smartContext === true;
             document.getElementById('excludeDeletes').checked = settings.excludeDeletes !== undefined ? settings.excludeDeletes : true;
             document.getElementById('fileExtensions').value = settings.fileExtensions || '';
+            document.getElementById('chunkedReview').checked = settings.chunkedReview !== undefined ? settings.chunkedReview : true;
+            document.getElementById('chunkTokenBudget').value = settings.chunkTokenBudget || 12000;
+            document.getElementById('confirmTokenThreshold').value = settings.confirmTokenThreshold !== undefined ? settings.confirmTokenThreshold : 50000;
             
             // Load LLM provider settings
             document.getElementById('llmProvider').value = settings.llmProvider || 'bedrock';
+            document.getElementById('structuredOutput').checked = settings.structuredOutput === true;
+            document.getElementById('includeCommitContext').checked = settings.includeCommitContext === true;
             document.getElementById('awsAccessKey').value = settings.awsAccessKey || '';
             document.getElementById('awsSecretKey').value = settings.awsSecretKey || '';
             document.getElementById('awsRegion').value = settings.awsRegion || 'us-east-1';
             document.getElementById('modelName').value = settings.modelName || 'anthropic.claude-3-5-sonnet-20241022-v2:0';
+            document.getElementById('openaiBaseUrl').value = settings.openaiBaseUrl || '';
+            document.getElementById('openaiApiKey').value = settings.openaiApiKey || '';
+            document.getElementById('openaiModel').value = settings.openaiModel || '';
+            document.getElementById('openaiTemperature').value = settings.openaiTemperature !== undefined ? settings.openaiTemperature : 0.2;
+            document.getElementById('ollamaBaseUrl').value = settings.ollamaBaseUrl || '';
+            document.getElementById('ollamaModel').setAttribute('data-saved-value', settings.ollamaModel || '');
+            updateOllamaModelSelect([]);
+            document.getElementById('anthropicApiKey').value = settings.anthropicApiKey || '';
+            document.getElementById('anthropicModel').value = settings.anthropicModel || 'claude-3-5-sonnet-latest';
+            document.getElementById('anthropicMaxTokens').value = settings.anthropicMaxTokens || 4000;
             
             // Store the VS Code LM family value to restore after families are loaded
             const savedVscodeLmFamily = settings.vscodeLmFamily || 'gpt-4o';
@@ -1655,6 +1973,7 @@ export class SettingsViewProvider implements vscode.WebviewViewProvider {
         }
 
         function updateBranchInfo(branchInfo) {
+            updateRepositories(branchInfo.repositories || [], branchInfo.selectedRepository);
             if (branchInfo.error) {
                 document.getElementById('currentBranch').innerHTML = '<span class="error">' + branchInfo.error + '</span>';
                 document.getElementById('latestCommitInfo').innerHTML = '<span class="error">-</span>';
@@ -1691,7 +2010,9 @@ export class SettingsViewProvider implements vscode.WebviewViewProvider {
                 
                 // Update commit dropdown
                 const commitSelect = document.getElementById('compareCommit');
-                commitSelect.innerHTML = '<option value="">${this._getMessage('git.selectCommit')}</option>';
+                commitSelect.innerHTML = '<option value="">${this._getMessage('git.selectCommit')}</option>' +
+                    '<option value="${STAGED_CHANGES_TARGET}">${this._getMessage('git.stagedChanges')}</option>' +
+                    '<option value="${WORKING_TREE_CHANGES_TARGET}">${this._getMessage('git.workingTreeChanges')}</option>';
                 
                 if (branchInfo.commitHistory && branchInfo.commitHistory.length > 0) {
                     branchInfo.commitHistory.forEach(commit => {
@@ -1701,7 +2022,53 @@ export class SettingsViewProvider implements vscode.WebviewViewProvider {
                         commitSelect.appendChild(option);
                     });
                 }
+
+                // Branches and tags are offered in the base dropdown and the ref inputs
+                const refOptions = document.getElementById('gitRefOptions');
+                refOptions.innerHTML = '';
+                [['${this._getMessage('git.branches')}', branchInfo.branches], ['${this._getMessage('git.tags')}', branchInfo.tags]].forEach(([label, names]) => {
+                    if (!names || names.length === 0) {
+                        return;
+                    }
+                    const group = document.createElement('optgroup');
+                    group.label = label;
+                    names.forEach(name => {
+                        const option = document.createElement('option');
+                        option.value = name;
+                        option.textContent = name;
+                        group.appendChild(option);
+
+                        const refOption = document.createElement('option');
+                        refOption.value = name;
+                        refOptions.appendChild(refOption);
+                    });
+                    commitSelect.appendChild(group);
+                });
+            }
+        }
+
+        // The repository picker is only shown when the workspace has more than one repository
+        function updateRepositories(repositories, selectedRepository) {
+            const repositorySelect = document.getElementById('repositorySelect');
+            repositorySelect.innerHTML = '';
+            repositories.forEach(repository => {
+                const option = document.createElement('option');
+                option.value = repository.path;
+                option.textContent = repository.name;
+                option.title = repository.path;
+                repositorySelect.appendChild(option);
+            });
+            if (selectedRepository) {
+                repositorySelect.value = selectedRepository;
             }
+            document.getElementById('repositoryGroup').style.display = repositories.length > 1 ? 'block' : 'none';
+        }
+
+        function selectRepository() {
+            vscode.postMessage({
+                command: 'selectRepository',
+                repositoryPath: document.getElementById('repositorySelect').value
+            });
         }
 
         // New functions for favorite prompts and file filtering
@@ -1797,6 +2164,38 @@ export class SettingsViewProvider implements vscode.WebviewViewProvider {
             });
         }
 
+        // Function to load installed Ollama models from the extension
+        function loadOllamaModels() {
+            vscode.postMessage({
+                command: 'loadOllamaModels',
+                baseUrl: document.getElementById('ollamaBaseUrl').value
+            });
+        }
+
+        function updateOllamaModelSelect(models) {
+            const ollamaModelSelect = document.getElementById('ollamaModel');
+            const currentValue = ollamaModelSelect.value || ollamaModelSelect.getAttribute('data-saved-value') || '';
+            
+            ollamaModelSelect.innerHTML = '';
+            
+            if (models && models.length > 0) {
+                models.forEach(model => {
+                    const option = document.createElement('option');
+                    option.value = model;
+                    option.textContent = model;
+                    ollamaModelSelect.appendChild(option);
+                });
+                ollamaModelSelect.value = models.includes(currentValue) ? currentValue : models[0];
+            } else {
+                // Keep the saved model selectable while the daemon is unreachable
+                const option = document.createElement('option');
+                option.value = currentValue;
+                option.textContent = currentValue || ${JSON.stringify(this._getMessage('ollama.noModels'))};
+                ollamaModelSelect.appendChild(option);
+                ollamaModelSelect.value = currentValue;
+            }
+        }
+
         // Add change event listener for VS Code LM Family select
         document.addEventListener('DOMContentLoaded', function() {
             console.log('WebView DOM loaded');
@@ -1856,6 +2255,22 @@ export class SettingsViewProvider implements vscode.WebviewViewProvider {
         }
     }
 
+    private async _loadOllamaModels(baseUrl?: string) {
+        try {
+            const models = await vscode.commands.executeCommand('diff-lens.getOllamaModels', baseUrl);
+            this._view?.webview.postMessage({
+                command: 'ollamaModelsLoaded',
+                models: models
+            });
+        } catch (error) {
+            console.error('Error loading Ollama models:', error);
+            this._view?.webview.postMessage({
+                command: 'ollamaModelsLoaded',
+                models: []
+            });
+        }
+    }
+
     private async _exportReview(format: string, options: any) {
         try {
             // Import necessary modules
@@ -1884,15 +2299,30 @@ export class SettingsViewProvider implements vscode.WebviewViewProvider {
                 systemPrompt: vsConfig.get('systemPrompt', ''),
                 reviewPerspective: vsConfig.get('reviewPerspective', ''),
                 contextLines: vsConfig.get('contextLines', 50),
+                smartContext: vsConfig.get('smartContext', false),
                 excludeDeletes: vsConfig.get('excludeDeletes', true),
                 fileExtensions: vsConfig.get('fileExtensions', ''),
-                llmProvider: vsConfig.get('llmProvider', 'bedrock') as 'bedrock' | 'vscode-lm',
+                llmProvider: vsConfig.get<string>('llmProvider', 'bedrock'),
                 awsAccessKey: vsConfig.get('awsAccessKey', ''),
                 awsSecretKey: vsConfig.get('awsSecretKey', ''),
                 awsRegion: vsConfig.get('awsRegion', 'us-east-1'),
                 modelName: vsConfig.get('modelName', 'anthropic.claude-3-5-sonnet-20241022-v2:0'),
                 vscodeLmVendor: vsConfig.get('vscodeLmVendor', 'copilot'),
                 vscodeLmFamily: vsConfig.get('vscodeLmFamily', 'gpt-4o'),
+                openaiBaseUrl: vsConfig.get('openaiBaseUrl', 'http://localhost:8000/v1'),
+                openaiApiKey: vsConfig.get('openaiApiKey', ''),
+                openaiModel: vsConfig.get('openaiModel', ''),
+                openaiTemperature: vsConfig.get('openaiTemperature', 0.2),
+                ollamaBaseUrl: vsConfig.get('ollamaBaseUrl', 'http://localhost:11434'),
+                ollamaModel: vsConfig.get('ollamaModel', ''),
+                anthropicApiKey: vsConfig.get('anthropicApiKey', ''),
+                anthropicModel: vsConfig.get('anthropicModel', 'claude-3-5-sonnet-latest'),
+                anthropicMaxTokens: vsConfig.get('anthropicMaxTokens', 4000),
+                chunkedReview: vsConfig.get('chunkedReview', true),
+                chunkTokenBudget: vsConfig.get('chunkTokenBudget', 12000),
+                confirmTokenThreshold: vsConfig.get('confirmTokenThreshold', 50000),
+                structuredOutput: vsConfig.get('structuredOutput', false),
+                includeCommitContext: vsConfig.get('includeCommitContext', false),
                 // Add missing properties with default values
                 maxFileSize: vsConfig.get('maxFileSize', 5),
                 fileSizeUnit: vsConfig.get('fileSizeUnit', 'MB') as 'KB' | 'MB',
@@ -1936,8 +2366,7 @@ export class SettingsViewProvider implements vscode.WebviewViewProvider {
                 const diffText = reviewService.getLastDiffText();
                 result = await exportService.exportToHtml(reviewResult, gitInfo, options, {}, diffText, saveUri.fsPath);
             } else {
-                vscode.window.showErrorMessage('JSONエクスポートは現在サポートされていません。');
-                return;
+                result = await exportService.exportToJson(reviewResult, gitInfo, options, {}, saveUri.fsPath);
             }
 
             if (result.success) {
@@ -1946,9 +2375,15 @@ export class SettingsViewProvider implements vscode.WebviewViewProvider {
                     'ファイルを開く'
                 );
                 if (openFile === 'ファイルを開く' && result.filePath) {
-                    // HTMLファイルはブラウザで開く
-                    const fileUri = vscode.Uri.parse(`file://${result.filePath}`);
-                    await vscode.env.openExternal(fileUri);
+                    if (format === 'html') {
+                        // HTMLファイルはブラウザで開く
+                        const fileUri = vscode.Uri.parse(`file://${result.filePath}`);
+                        await vscode.env.openExternal(fileUri);
+                    } else {
+                        // JSONファイルはVS Codeで開く
+                        const doc = await vscode.workspace.openTextDocument(result.filePath);
+                        await vscode.window.showTextDocument(doc);
+                    }
                 }
             } else {
                 vscode.window.showErrorMessage(result.message);
@@ -0,0 +1,164 @@
+import * as vscode from 'vscode';
+import { ContextBlock, SmartContextBlocks } from './types';
+import { logGitOperation } from './logger';
+
+// Smart context: the functions, classes and blocks that diff hunks are grown to,
+// found with the language's document symbol provider or, without one, from the indentation
+
+// Longer blocks would cost more tokens than they are worth; changes inside them keep the fixed context
+export const SMART_CONTEXT_MAX_LINES = 200;
+
+// Width of a tab when comparing indentation
+const TAB_WIDTH = 4;
+
+// Document of a workspace file whose text is the given content: an open editor, or the file on disk
+// Content that only exists in a commit or the index has no such document, and none is opened for it
+async function findMatchingDocument(fileUri: vscode.Uri, content: string): Promise<vscode.TextDocument | undefined> {
+	const openDocument = vscode.workspace.textDocuments.find(document => document.uri.toString() === fileUri.toString());
+	if (openDocument) {
+		return openDocument.getText() === content ? openDocument : undefined;
+	}
+	try {
+		const fileContent = await vscode.workspace.fs.readFile(fileUri);
+		if (Buffer.from(fileContent).toString('utf8') !== content) {
+			return undefined;
+		}
+		return await vscode.workspace.openTextDocument(fileUri);
+	} catch (error) {
+		logGitOperation(`No workspace document for ${fileUri.fsPath}`, error);
+		return undefined;
+	}
+}
+
+// Function, class and other declaration blocks reported by the document symbol provider of the document's language
+async function findSymbolBlocks(document: vscode.TextDocument): Promise<ContextBlock[]> {
+	const enclosingKinds = new Set([
+		vscode.SymbolKind.Function,
+		vscode.SymbolKind.Method,
+		vscode.SymbolKind.Constructor,
+		vscode.SymbolKind.Class,
+		vscode.SymbolKind.Interface,
+		vscode.SymbolKind.Struct,
+		vscode.SymbolKind.Enum,
+		vscode.SymbolKind.Module,
+		vscode.SymbolKind.Namespace
+	]);
+
+	try {
+		const symbols = await vscode.commands.executeCommand<(vscode.DocumentSymbol | vscode.SymbolInformation)[]>(
+			'vscode.executeDocumentSymbolProvider',
+			document.uri
+		) || [];
+
+		const blocks: ContextBlock[] = [];
+		const collect = (symbol: vscode.DocumentSymbol | vscode.SymbolInformation) => {
+			const range = 'location' in symbol ? symbol.location.range : symbol.range;
+			if (enclosingKinds.has(symbol.kind) && range.end.line - range.start.line < SMART_CONTEXT_MAX_LINES) {
+				blocks.push({ startLine: range.start.line, endLine: range.end.line });
+			}
+			if ('children' in symbol) {
+				symbol.children.forEach(collect);
+			}
+		};
+		symbols.forEach(collect);
+		return blocks;
+	} catch (error) {
+		logGitOperation(`Document symbol provider failed for ${document.uri.fsPath}`, error);
+		return [];
+	}
+}
+
+// Indentation of a line in columns, or -1 for a blank line
+function measureIndent(line: string): number {
+	if (!line.trim()) {
+		return -1;
+	}
+	let width = 0;
+	for (const char of line) {
+		if (char === ' ') {
+			width++;
+		} else if (char === '\t') {
+			width += TAB_WIDTH;
+		} else {
+			break;
+		}
+	}
+	return width;
+}
+
+// Blocks found from the indentation and braces: a line followed by more deeply indented lines,
+// up to the closing bracket or "end" at the header's indentation
+// Only the outermost blocks that fit within maxLines are kept, which are usually whole functions or classes
+export function findIndentationBlocks(content: string, maxLines: number = SMART_CONTEXT_MAX_LINES): ContextBlock[] {
+	const lines = content.split('\n');
+	if (lines[lines.length - 1] === '') {
+		lines.pop();
+	}
+	const indents = lines.map(measureIndent);
+
+	const blocks: ContextBlock[] = [];
+	for (let i = 0; i < lines.length; i++) {
+		if (indents[i] < 0) {
+			continue;
+		}
+		let next = i + 1;
+		while (next < lines.length && indents[next] < 0) {
+			next++;
+		}
+		if (next >= lines.length || indents[next] <= indents[i]) {
+			continue;
+		}
+
+		let endLine = next;
+		let j = next + 1;
+		for (; j < lines.length && (indents[j] < 0 || indents[j] > indents[i]); j++) {
+			if (indents[j] >= 0) {
+				endLine = j;
+			}
+		}
+		if (j < lines.length && indents[j] === indents[i] && /^\s*([}\])]|end\b)/.test(lines[j])) {
+			endLine = j;
+		}
+
+		// A brace on its own line belongs to the declaration above it
+		let startLine = i;
+		if (/^\s*\{\s*$/.test(lines[i])) {
+			let previous = i - 1;
+			while (previous >= 0 && indents[previous] < 0) {
+				previous--;
+			}
+			if (previous >= 0 && indents[previous] === indents[i]) {
+				startLine = previous;
+			}
+		}
+		blocks.push({ startLine, endLine });
+	}
+
+	// Blocks start in line order, so a block is inside a kept one when it ends before the last kept block does
+	const outermost: ContextBlock[] = [];
+	let keptUntil = -1;
+	for (const block of blocks.sort((a, b) => a.startLine - b.startLine || b.endLine - a.endLine)) {
+		if (block.endLine - block.startLine < maxLines && block.endLine > keptUntil) {
+			outermost.push(block);
+			keptUntil = block.endLine;
+		}
+	}
+	return outermost;
+}
+
+// Blocks of a file content: declarations from the symbol provider when the content is that of a workspace document
+// and the provider reports any, otherwise the indentation blocks
+export async function findContextBlocks(fileUri: vscode.Uri, content: string): Promise<ContextBlock[]> {
+	const document = await findMatchingDocument(fileUri, content);
+	const symbolBlocks = document ? await findSymbolBlocks(document) : [];
+	return symbolBlocks.length > 0 ? symbolBlocks : findIndentationBlocks(content);
+}
+
+// Blocks of both sides of a modified or renamed file
+// The old side is a past revision with no document, so only the new side can use the symbol provider
+export async function findSmartContextBlocks(repositoryRoot: vscode.Uri, newPath: string, oldContent: string, newContent: string): Promise<SmartContextBlocks> {
+	return {
+		oldBlocks: findIndentationBlocks(oldContent),
+		newBlocks: await findContextBlocks(vscode.Uri.joinPath(repositoryRoot, newPath), newContent)
+	};
+}
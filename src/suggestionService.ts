@@ -0,0 +1,169 @@
+import * as vscode from 'vscode';
+import { ReviewFinding, SuggestedPatch } from './types';
+import { getFindingForDiagnostic } from './diagnosticsService';
+import { parseModelJson } from './findingsService';
+import { getConfiguration } from './configService';
+import { sendPromptToLLM } from './reviewService';
+
+// Quick fixes that apply a finding's suggestion as a model-generated minimal patch
+
+const PREVIEW_SCHEME = 'difflens-suggestion';
+// Lines of context around the finding sent to the model
+const PATCH_CONTEXT_LINES = 15;
+
+// Proposed file contents shown on the right side of the preview diff
+const previewContents = new Map<string, string>();
+
+// Offers "Apply DiffLens suggestion" on DiffLens diagnostics whose finding has a suggestion
+export class SuggestionCodeActionProvider implements vscode.CodeActionProvider {
+	static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+	provideCodeActions(document: vscode.TextDocument, range: vscode.Range | vscode.Selection, context: vscode.CodeActionContext): vscode.CodeAction[] {
+		const actions: vscode.CodeAction[] = [];
+		for (const diagnostic of context.diagnostics) {
+			if (diagnostic.source !== 'DiffLens') {
+				continue;
+			}
+			const finding = getFindingForDiagnostic(document.uri, diagnostic);
+			if (!finding || !finding.suggestion.trim()) {
+				continue;
+			}
+
+			const action = new vscode.CodeAction('Apply DiffLens suggestion', vscode.CodeActionKind.QuickFix);
+			action.diagnostics = [diagnostic];
+			action.command = {
+				command: 'diff-lens.applySuggestion',
+				title: 'Apply DiffLens suggestion',
+				arguments: [document.uri, finding]
+			};
+			actions.push(action);
+		}
+		return actions;
+	}
+}
+
+// Register the code action provider, the preview content provider and the apply command
+export function registerSuggestionActions(): vscode.Disposable {
+	return vscode.Disposable.from(
+		vscode.languages.registerCodeActionsProvider({ scheme: 'file' }, new SuggestionCodeActionProvider(), {
+			providedCodeActionKinds: SuggestionCodeActionProvider.providedCodeActionKinds
+		}),
+		vscode.workspace.registerTextDocumentContentProvider(PREVIEW_SCHEME, {
+			provideTextDocumentContent: uri => previewContents.get(uri.toString()) || ''
+		}),
+		vscode.commands.registerCommand('diff-lens.applySuggestion', (uri: vscode.Uri, finding: ReviewFinding) => applySuggestion(uri, finding))
+	);
+}
+
+// Build the prompt asking for a minimal replacement of a line range
+function buildPatchPrompt(document: vscode.TextDocument, finding: ReviewFinding, startLine: number, endLine: number): string {
+	const numberedCode: string[] = [];
+	for (let line = startLine; line <= endLine; line++) {
+		numberedCode.push(`${line + 1}| ${document.lineAt(line).text}`);
+	}
+
+	return `Produce a minimal patch that applies the following code review suggestion.
+
+File: ${vscode.workspace.asRelativePath(document.uri)}
+Finding: ${finding.title}
+Description: ${finding.description}
+Suggestion: ${finding.suggestion}
+
+Current code (each line is prefixed with its line number and "| ", which are not part of the file):
+${numberedCode.join('\n')}
+
+Respond only with a JSON object of the form {"startLine": <first line to replace>, "endLine": <last line to replace>, "originalText": "<exact current text of those lines>", "replacementText": "<new text for those lines>"}.
+Replace as few lines as possible, keep the existing indentation, and do not include the line number prefixes.`;
+}
+
+// Validate the model's patch; returns the problem when it cannot be used
+function validatePatch(data: any): { patch?: SuggestedPatch; error?: string } {
+	if (!data || typeof data !== 'object') {
+		return { error: 'Response is not a JSON object' };
+	}
+	if (!Number.isInteger(data.startLine) || !Number.isInteger(data.endLine) || data.startLine < 1 || data.endLine < data.startLine) {
+		return { error: 'startLine and endLine must be line numbers with startLine <= endLine' };
+	}
+	if (typeof data.originalText !== 'string' || typeof data.replacementText !== 'string') {
+		return { error: 'originalText and replacementText must be strings' };
+	}
+	return { patch: data as SuggestedPatch };
+}
+
+// Range of the patched lines, or undefined when the file no longer contains the original text
+function matchPatch(document: vscode.TextDocument, patch: SuggestedPatch): vscode.Range | undefined {
+	if (patch.endLine > document.lineCount) {
+		return undefined;
+	}
+
+	const range = new vscode.Range(patch.startLine - 1, 0, patch.endLine - 1, document.lineAt(patch.endLine - 1).text.length);
+	const normalize = (text: string) => text.replace(/\r\n/g, '\n').replace(/\n$/, '');
+	return normalize(document.getText(range)) === normalize(patch.originalText) ? range : undefined;
+}
+
+// Ask the model for a patch, preview it in a diff editor and apply it as a single edit
+async function applySuggestion(uri: vscode.Uri, finding: ReviewFinding): Promise<void> {
+	try {
+		const document = await vscode.workspace.openTextDocument(uri);
+		const findingLine = Math.min(Math.max(finding.line - 1, 0), document.lineCount - 1);
+		const startLine = Math.max(findingLine - PATCH_CONTEXT_LINES, 0);
+		const endLine = Math.min(findingLine + PATCH_CONTEXT_LINES, document.lineCount - 1);
+
+		const response = await vscode.window.withProgress({
+			location: vscode.ProgressLocation.Notification,
+			title: 'DiffLens: Generating patch for suggestion...',
+			cancellable: true
+		}, (progress, token) => sendPromptToLLM(buildPatchPrompt(document, finding, startLine, endLine), getConfiguration(), token));
+
+		let data: any;
+		try {
+			data = parseModelJson(response.text);
+		} catch (error) {
+			throw new Error(`The model did not return a valid patch: ${error}`);
+		}
+		const { patch, error } = validatePatch(data);
+		if (!patch) {
+			throw new Error(`The model did not return a valid patch: ${error}`);
+		}
+
+		// Refuse patches whose original text is not what the file contains now
+		let range = matchPatch(document, patch);
+		if (!range) {
+			vscode.window.showWarningMessage('DiffLensの提案は現在のファイル内容と一致しないため適用できません。レビューを再実行してください。');
+			return;
+		}
+		const replacement = patch.replacementText.replace(/\r?\n$/, '');
+
+		// Show the patched file next to the current one
+		const proposedText = document.getText(new vscode.Range(0, 0, range.start.line, 0)) +
+			replacement +
+			document.getText(new vscode.Range(range.end, document.lineAt(document.lineCount - 1).range.end));
+		const previewUri = vscode.Uri.from({ scheme: PREVIEW_SCHEME, path: uri.path, query: `${Date.now()}` });
+		previewContents.set(previewUri.toString(), proposedText);
+		await vscode.commands.executeCommand('vscode.diff', uri, previewUri, `${vscode.workspace.asRelativePath(uri)} ↔ DiffLens suggestion`);
+
+		const selection = await vscode.window.showInformationMessage(`「${finding.title}」の修正を適用しますか？`, '適用', 'キャンセル');
+		previewContents.delete(previewUri.toString());
+		if (selection !== '適用') {
+			return;
+		}
+
+		// The file may have been edited while the preview was open
+		range = matchPatch(document, patch);
+		if (!range) {
+			vscode.window.showWarningMessage('プレビュー中にファイルが変更されたため、DiffLensの提案を適用できません。');
+			return;
+		}
+
+		const edit = new vscode.WorkspaceEdit();
+		edit.replace(uri, range, replacement);
+		if (!await vscode.workspace.applyEdit(edit)) {
+			throw new Error('The workspace edit was rejected');
+		}
+	} catch (error) {
+		if (error instanceof vscode.CancellationError) {
+			return;
+		}
+		vscode.window.showErrorMessage(`Failed to apply DiffLens suggestion: ${error}`);
+	}
+}
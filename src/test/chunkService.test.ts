@@ -0,0 +1,44 @@
+import * as assert from 'assert';
+import { estimateTokens, splitDiffIntoChunks } from '../chunkService';
+
+suite('Chunk Service Test Suite', () => {
+	// A file diff with the given number of hunks, each adding one padded line
+	function fileDiff(path: string, hunkCount: number, padding: number = 40): string {
+		const lines = [
+			`diff --git a/${path} b/${path}`,
+			`--- a/${path}`,
+			`+++ b/${path}`
+		];
+		for (let i = 0; i < hunkCount; i++) {
+			lines.push(`@@ -${i * 10 + 1},1 +${i * 10 + 1},2 @@`, ' context', `+${'x'.repeat(padding)}`);
+		}
+		return lines.join('\n');
+	}
+
+	test('keeps a diff within the budget in one chunk', () => {
+		const diff = [fileDiff('a.ts', 1), fileDiff('b.ts', 1)].join('\n\n');
+
+		assert.deepStrictEqual(splitDiffIntoChunks(diff, estimateTokens(diff)), [diff]);
+	});
+
+	test('groups whole files into chunks within the budget', () => {
+		const files = ['a.ts', 'b.ts', 'c.ts'].map(path => fileDiff(path, 1));
+		const budget = estimateTokens(`${files[0]}\n\n${files[1]}`);
+
+		const chunks = splitDiffIntoChunks(files.join('\n\n'), budget);
+
+		assert.deepStrictEqual(chunks, [`${files[0]}\n\n${files[1]}`, files[2]]);
+	});
+
+	test('splits an oversized file between hunks and repeats its header', () => {
+		const diff = fileDiff('big.ts', 4, 200);
+
+		const chunks = splitDiffIntoChunks(diff, 150);
+
+		assert.ok(chunks.length > 1);
+		for (const chunk of chunks) {
+			assert.ok(chunk.startsWith('diff --git a/big.ts b/big.ts\n--- a/big.ts\n+++ b/big.ts\n@@'));
+		}
+		assert.strictEqual(chunks.join('\n').split('\n').filter(line => line.startsWith('@@')).length, 4);
+	});
+});
@@ -0,0 +1,160 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { execFileSync } from 'child_process';
+import { abbreviateBlobHash, formatDiffAsMarkdown, generatePreciseUnifiedDiff, generateRenameDiff, generateUncommittedFileDiff } from '../diffService';
+import { Repository, Status } from '../types';
+
+// Each fixture is a sample repository with one commit of "before" files followed by one commit of "after" files
+const FIXTURES_DIR = path.resolve(__dirname, '../../src/test/fixtures/diff');
+// Rename fixtures have one file on each side, stored under its old and its new name
+const RENAME_FIXTURES_DIR = path.resolve(__dirname, '../../src/test/fixtures/rename');
+const CONTEXT_LINES = [0, 1, 3, 10];
+
+suite('Diff Service Test Suite', () => {
+	let repositoryRoot: string;
+
+	function git(repositoryPath: string, ...args: string[]): string {
+		return execFileSync('git', ['-c', 'user.name=DiffLens', '-c', 'user.email=difflens@example.com', '-c', 'core.autocrlf=false', ...args], {
+			cwd: repositoryPath,
+			encoding: 'utf8',
+			env: { ...process.env, GIT_CONFIG_NOSYSTEM: '1' }
+		});
+	}
+
+	// Create the sample repository of a fixture and return its path
+	function createFixtureRepository(fixturesDir: string, fixture: string): string {
+		const repositoryPath = path.join(repositoryRoot, path.basename(fixturesDir), fixture);
+		fs.mkdirSync(repositoryPath, { recursive: true });
+		git(repositoryPath, 'init', '--quiet');
+		for (const side of ['before', 'after']) {
+			// The after commit replaces the whole tree, so files missing from it are deleted or renamed
+			git(repositoryPath, 'rm', '-r', '--quiet', '--ignore-unmatch', '.');
+			fs.cpSync(path.join(fixturesDir, fixture, side), repositoryPath, { recursive: true });
+			git(repositoryPath, 'add', '--all');
+			git(repositoryPath, 'commit', '--quiet', '--message', side);
+		}
+		return repositoryPath;
+	}
+
+	// Content of a fixture file, or undefined when the file is not on that side
+	function readFixtureFile(fixtureDir: string, side: string, file: string): string | undefined {
+		const filePath = path.join(fixtureDir, side, file);
+		return fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf8') : undefined;
+	}
+
+	// Blob hash of a fixture file from its raw bytes, as git reports it; decoding would change the bytes of non-UTF-8 files
+	function readFixtureBlobHash(fixtureDir: string, side: string, file: string): string | undefined {
+		const filePath = path.join(fixtureDir, side, file);
+		return fs.existsSync(filePath) ? abbreviateBlobHash(fs.readFileSync(filePath)) : undefined;
+	}
+
+	suiteSetup(() => {
+		repositoryRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'difflens-diff-'));
+	});
+
+	suiteTeardown(() => {
+		fs.rmSync(repositoryRoot, { recursive: true, force: true });
+	});
+
+	for (const fixture of fs.readdirSync(FIXTURES_DIR).sort()) {
+		test(`matches git diff for the ${fixture} fixture`, () => {
+			const repositoryPath = createFixtureRepository(FIXTURES_DIR, fixture);
+			const fixtureDir = path.join(FIXTURES_DIR, fixture);
+			const files = new Set([...fs.readdirSync(path.join(fixtureDir, 'before')), ...fs.readdirSync(path.join(fixtureDir, 'after'))]);
+			for (const file of files) {
+				const oldContent = readFixtureFile(fixtureDir, 'before', file);
+				const newContent = readFixtureFile(fixtureDir, 'after', file);
+				const kind = oldContent === undefined ? 'added' : newContent === undefined ? 'deleted' : 'modified';
+				const blobHashes = {
+					oldHash: readFixtureBlobHash(fixtureDir, 'before', file),
+					newHash: readFixtureBlobHash(fixtureDir, 'after', file)
+				};
+				for (const contextLines of CONTEXT_LINES) {
+					const expected = git(repositoryPath, 'diff', '--no-color', '--no-ext-diff',
+						'--src-prefix=a/', '--dst-prefix=b/', `-U${contextLines}`, 'HEAD~1', 'HEAD', '--', file);
+
+					assert.strictEqual(
+						generatePreciseUnifiedDiff(file, file, oldContent || '', newContent || '', contextLines, kind, undefined, blobHashes),
+						expected.replace(/\n$/, ''),
+						`${file} with ${contextLines} context lines`
+					);
+				}
+			}
+		});
+	}
+
+	for (const fixture of fs.readdirSync(RENAME_FIXTURES_DIR).sort()) {
+		test(`matches git diff rename headers for the ${fixture} fixture`, () => {
+			const repositoryPath = createFixtureRepository(RENAME_FIXTURES_DIR, fixture);
+			const [oldPath] = fs.readdirSync(path.join(RENAME_FIXTURES_DIR, fixture, 'before'));
+			const [newPath] = fs.readdirSync(path.join(RENAME_FIXTURES_DIR, fixture, 'after'));
+			const oldContent = fs.readFileSync(path.join(RENAME_FIXTURES_DIR, fixture, 'before', oldPath), 'utf8');
+			const newContent = fs.readFileSync(path.join(RENAME_FIXTURES_DIR, fixture, 'after', newPath), 'utf8');
+			for (const contextLines of CONTEXT_LINES) {
+				const expected = git(repositoryPath, 'diff', '--no-color', '--no-ext-diff', '--find-renames',
+					'--src-prefix=a/', '--dst-prefix=b/', `-U${contextLines}`, 'HEAD~1', 'HEAD');
+
+				assert.strictEqual(
+					generateRenameDiff(oldPath, newPath, oldContent, newContent, contextLines),
+					expected.replace(/\n$/, ''),
+					`${oldPath} -> ${newPath} with ${contextLines} context lines`
+				);
+			}
+		});
+	}
+
+	test('uses copy headers for copied files', () => {
+		assert.strictEqual(
+			generateRenameDiff('a.txt', 'b.txt', 'same\n', 'same\n', 3, true),
+			'diff --git a/a.txt b/b.txt\nsimilarity index 100%\ncopy from a.txt\ncopy to b.txt'
+		);
+	});
+
+	test('tells the model that a renamed file was moved, not rewritten', () => {
+		const markdown = formatDiffAsMarkdown(generateRenameDiff('src/old.ts', 'src/new.ts', 'a\nb\nc\nd\n', 'a\nb\nc\ne\n', 3));
+
+		assert.ok(markdown.includes('## src/new.ts (moved from src/old.ts)'));
+		assert.ok(markdown.includes('This file was moved from `src/old.ts`, not rewritten (75% similar)'));
+		assert.ok(!markdown.includes('rename from'));
+	});
+
+	test('grows hunks to the enclosing block with smart context', () => {
+		const oldContent = 'int add(int a, int b)\n{\n\tint sum = a + b;\n\treturn sum;\n}\n\nint zero = 0;\n';
+		const newContent = 'int add(int a, int b)\n{\n\tint sum = a + b;\n\treturn sum + zero;\n}\n\nint zero = 0;\n';
+		const blocks = { oldBlocks: [{ startLine: 0, endLine: 4 }], newBlocks: [{ startLine: 0, endLine: 4 }] };
+
+		assert.strictEqual(
+			generatePreciseUnifiedDiff('add.c', 'add.c', oldContent, newContent, 0, 'modified', blocks).split('\n').slice(4).join('\n'),
+			[
+				'@@ -1,5 +1,5 @@',
+				' int add(int a, int b)',
+				' {',
+				' \tint sum = a + b;',
+				'-\treturn sum;',
+				'+\treturn sum + zero;',
+				' }'
+			].join('\n')
+		);
+	});
+
+	test('returns an empty diff for identical contents', () => {
+		assert.strictEqual(generatePreciseUnifiedDiff('a.txt', 'a.txt', 'same\n', 'same\n', 3), '');
+	});
+
+	test('fails instead of diffing a working tree file that cannot be read as empty', async () => {
+		const repositoryPath = fs.mkdtempSync(path.join(repositoryRoot, 'unreadable-'));
+		// The index has the file, but it is gone from disk by the time it is read
+		const repository = { rootUri: vscode.Uri.file(repositoryPath), show: async () => 'kept\n' } as unknown as Repository;
+		const uri = vscode.Uri.file(path.join(repositoryPath, 'gone.txt'));
+
+		for (const status of [Status.MODIFIED, Status.UNTRACKED]) {
+			await assert.rejects(
+				generateUncommittedFileDiff(repository, { uri, originalUri: uri, status }, false, 3, false, repositoryPath),
+				/Failed to read gone\.txt in the working tree/
+			);
+		}
+	});
+});
@@ -0,0 +1,81 @@
+import * as assert from 'assert';
+import { groupFindingsByCategory, parseFindings, summarizeFindings } from '../findingsService';
+
+suite('Findings Service Test Suite', () => {
+	const finding = {
+		file: 'src/app.ts',
+		line: 12,
+		severity: 'major',
+		category: 'Security',
+		title: 'Unescaped input',
+		description: 'User input is written to the page without escaping.',
+		suggestion: 'Escape the value before rendering it.'
+	};
+
+	test('parses a valid findings object', () => {
+		const result = parseFindings(JSON.stringify({ findings: [finding] }));
+
+		assert.deepStrictEqual(result.errors, []);
+		assert.deepStrictEqual(result.findings, [finding]);
+	});
+
+	test('repairs code fences, surrounding prose and trailing commas', () => {
+		const text = `Here is the review:\n\`\`\`json\n{"findings": [${JSON.stringify({ ...finding, severity: 'MAJOR', line: '12' })},]}\n\`\`\``;
+
+		const result = parseFindings(text);
+
+		assert.deepStrictEqual(result.findings, [finding]);
+	});
+
+	test('keeps code fences inside the strings of unfenced JSON', () => {
+		const fencedSuggestion = { ...finding, suggestion: 'Escape it:\n```ts\nrender(escape(value));\n```' };
+
+		const result = parseFindings(`${JSON.stringify({ findings: [fencedSuggestion] })}\n`);
+
+		assert.deepStrictEqual(result.findings, [fencedSuggestion]);
+	});
+
+	test('removes trailing commas without changing string contents', () => {
+		const bracketSuggestion = { ...finding, suggestion: 'Use [a, ] only in tests, }' };
+		const text = `{"findings": [${JSON.stringify(bracketSuggestion).replace(/}$/, ',}')},]}`;
+
+		const result = parseFindings(text);
+
+		assert.deepStrictEqual(result.findings, [bracketSuggestion]);
+	});
+
+	test('reports schema violations instead of findings', () => {
+		const result = parseFindings(JSON.stringify({ findings: [{ ...finding, severity: 'blocker', line: -1 }] }));
+
+		assert.strictEqual(result.findings, undefined);
+		assert.strictEqual(result.errors.length, 2);
+	});
+
+	test('reports malformed JSON', () => {
+		const result = parseFindings('{"findings": [');
+
+		assert.strictEqual(result.findings, undefined);
+		assert.ok(result.errors[0].startsWith('Response is not valid JSON'));
+	});
+
+	test('summarizes and groups findings for export', () => {
+		const findings = parseFindings(JSON.stringify([
+			finding,
+			{ ...finding, severity: 'critical', title: 'SQL injection' },
+			{ ...finding, severity: 'suggestion', category: 'Style' }
+		])).findings!;
+
+		assert.deepStrictEqual(summarizeFindings(findings), {
+			overallScore: 'Critical Issues',
+			criticalIssues: 1,
+			majorIssues: 1,
+			minorIssues: 0,
+			suggestions: 1
+		});
+		const categories = groupFindingsByCategory(findings);
+		assert.deepStrictEqual(categories.map(category => [category.name, category.severity, category.issueCount]), [
+			['Security', 'critical', 2],
+			['Style', 'suggestion', 1]
+		]);
+	});
+});
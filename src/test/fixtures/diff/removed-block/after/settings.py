@@ -0,0 +1,31 @@
+import json
+import os
+
+
+class Settings:
+    def __init__(self, path):
+        self.path = path
+        self.values = {}
+
+    def load(self):
+        if not os.path.exists(self.path):
+            return
+        with open(self.path) as handle:
+            self.values = json.load(handle)
+
+    def save(self, path=None):
+        with open(path or self.path, "w") as handle:
+            json.dump(self.values, handle, indent=2)
+
+    def get(self, key, default=None):
+        return self.values.get(key, default)
+
+    def set(self, key, value):
+        self.values[key] = value
+
+
+def load_settings(path, defaults=None):
+    settings = Settings(path)
+    settings.values.update(defaults or {})
+    settings.load()
+    return settings
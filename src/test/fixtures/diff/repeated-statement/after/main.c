@@ -0,0 +1,11 @@
+int main(void)
+{
+	init();
+
+	step();
+
+	step();
+
+	step();
+	return 0;
+}
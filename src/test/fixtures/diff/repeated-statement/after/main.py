@@ -0,0 +1,7 @@
+def main():
+    setup()
+
+    run()
+
+    run()
+    return 0
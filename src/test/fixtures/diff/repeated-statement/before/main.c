@@ -0,0 +1,7 @@
+int main(void)
+{
+	init();
+
+	step();
+	return 0;
+}
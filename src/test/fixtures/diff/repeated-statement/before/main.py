@@ -0,0 +1,5 @@
+def main():
+    setup()
+
+    run()
+    return 0
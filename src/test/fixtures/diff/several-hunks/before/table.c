@@ -0,0 +1,73 @@
+#include <stdio.h>
+#include <stdlib.h>
+#include <string.h>
+
+#define BUFFER_SIZE 256
+
+struct entry {
+	char *key;
+	char *value;
+	struct entry *next;
+};
+
+static struct entry *table = NULL;
+
+static char *copy_string(const char *source)
+{
+	size_t length = strlen(source);
+	char *copy = malloc(length + 1);
+	if (!copy) {
+		return NULL;
+	}
+	memcpy(copy, source, length + 1);
+	return copy;
+}
+
+int table_put(const char *key, const char *value)
+{
+	struct entry *item = malloc(sizeof(*item));
+	if (!item) {
+		return -1;
+	}
+	item->key = copy_string(key);
+	item->value = copy_string(value);
+	item->next = table;
+	table = item;
+	return 0;
+}
+
+const char *table_get(const char *key)
+{
+	struct entry *item;
+	for (item = table; item; item = item->next) {
+		if (strcmp(item->key, key) == 0) {
+			return item->value;
+		}
+	}
+	return NULL;
+}
+
+void table_clear(void)
+{
+	while (table) {
+		struct entry *next = table->next;
+		free(table->key);
+		free(table->value);
+		free(table);
+		table = next;
+	}
+}
+
+int main(void)
+{
+	char line[BUFFER_SIZE];
+	while (fgets(line, sizeof(line), stdin)) {
+		char *separator = strchr(line, '=');
+		if (separator) {
+			*separator = '\0';
+			table_put(line, separator + 1);
+		}
+	}
+	table_clear();
+	return 0;
+}
@@ -0,0 +1,36 @@
+import json
+import os
+
+
+class Settings:
+    def __init__(self, path):
+        self.path = path
+        self.values = {}
+
+    def load(self):
+        if not os.path.exists(self.path):
+            return
+        with open(self.path) as handle:
+            self.values = json.load(handle)
+
+    def save(self):
+        with open(self.path, "w") as handle:
+            json.dump(self.values, handle, indent=2)
+
+    def get(self, key, default=None):
+        return self.values.get(key, default)
+
+    def legacy_get(self, key):
+        value = self.values.get(key)
+        if value is None:
+            raise KeyError(key)
+        return value
+
+    def set(self, key, value):
+        self.values[key] = value
+
+
+def load_settings(path):
+    settings = Settings(path)
+    settings.load()
+    return settings
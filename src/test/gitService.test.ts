@@ -0,0 +1,18 @@
+import * as assert from 'assert';
+import { extractIssueKeys } from '../gitService';
+
+suite('Git Service Test Suite', () => {
+	test('extracts Jira and GitHub issue keys', () => {
+		assert.deepStrictEqual(
+			extractIssueKeys(['feature/PROJ-123-login', 'Fix login redirect (#42)\n\nRefs AB2-7']),
+			['PROJ-123', 'AB2-7', '#42']
+		);
+	});
+
+	test('ignores standard and encoding names written like issue keys', () => {
+		assert.deepStrictEqual(
+			extractIssueKeys(['Read files as UTF-8, hash them with SHA-256 and format dates as ISO-8601', 'Support HTTP-2 and X11-1 displays']),
+			[]
+		);
+	});
+});
@@ -0,0 +1,117 @@
+import * as assert from 'assert';
+import * as http from 'http';
+import * as vscode from 'vscode';
+import { AddressInfo } from 'net';
+import { OpenAICompatibleProvider } from '../providers/openAICompatibleProvider';
+import { ReviewConfig } from '../types';
+
+suite('OpenAI Compatible Provider Test Suite', () => {
+	let server: http.Server;
+	let lastRequest: { url?: string; headers: http.IncomingHttpHeaders; body: any };
+	let config: ReviewConfig;
+	const provider = new OpenAICompatibleProvider();
+
+	// Minimal stub of the /v1/models and /v1/chat/completions endpoints
+	suiteSetup(async () => {
+		server = http.createServer((req, res) => {
+			let data = '';
+			req.on('data', chunk => data += chunk);
+			req.on('end', () => {
+				lastRequest = { url: req.url, headers: req.headers, body: data ? JSON.parse(data) : undefined };
+
+				if (req.url === '/v1/models') {
+					res.writeHead(200, { 'Content-Type': 'application/json' });
+					res.end(JSON.stringify({ data: [{ id: 'stub-coder' }, { id: 'stub-chat' }] }));
+					return;
+				}
+
+				// A stream whose last event is not followed by a newline
+				if (lastRequest.body.stream && lastRequest.body.messages[0].content === 'Unterminated') {
+					res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+					res.write(`data: ${JSON.stringify({ model: 'stub-coder', choices: [{ delta: { content: 'Looks ' } }] })}\n\n`);
+					res.end(`data: ${JSON.stringify({ model: 'stub-coder', choices: [{ delta: { content: 'good.' } }], usage: { prompt_tokens: 12, completion_tokens: 3 } })}`);
+					return;
+				}
+
+				if (lastRequest.body.stream) {
+					res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+					res.write(`data: ${JSON.stringify({ model: 'stub-coder', choices: [{ delta: { content: 'Looks ' } }] })}\n\n`);
+					res.write(`data: ${JSON.stringify({ model: 'stub-coder', choices: [{ delta: { content: 'good.' } }] })}\n\n`);
+					res.write(`data: ${JSON.stringify({ model: 'stub-coder', choices: [], usage: { prompt_tokens: 12, completion_tokens: 3 } })}\n\n`);
+					res.end('data: [DONE]\n\n');
+					return;
+				}
+
+				res.writeHead(200, { 'Content-Type': 'application/json' });
+				res.end(JSON.stringify({
+					model: 'stub-coder',
+					choices: [{ message: { role: 'assistant', content: 'Looks good.' } }],
+					usage: { prompt_tokens: 12, completion_tokens: 3 }
+				}));
+			});
+		});
+		await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+		const port = (server.address() as AddressInfo).port;
+		config = {
+			llmProvider: 'openai-compatible',
+			openaiBaseUrl: `http://127.0.0.1:${port}/v1/`,
+			openaiApiKey: 'test-key',
+			openaiModel: 'stub-coder',
+			openaiTemperature: 0.2
+		} as ReviewConfig;
+	});
+
+	suiteTeardown(() => {
+		server.close();
+	});
+
+	test('sends a chat completion request and parses the reply', async () => {
+		const response = await provider.sendPrompt('Review this diff', config);
+
+		assert.strictEqual(lastRequest.url, '/v1/chat/completions');
+		assert.strictEqual(lastRequest.headers.authorization, 'Bearer test-key');
+		assert.strictEqual(lastRequest.body.model, 'stub-coder');
+		assert.strictEqual(lastRequest.body.temperature, 0.2);
+		assert.strictEqual(lastRequest.body.messages[0].content, 'Review this diff');
+		assert.strictEqual(response.text, 'Looks good.');
+		assert.deepStrictEqual(response.usage, { inputTokens: 12, outputTokens: 3 });
+	});
+
+	test('streams server-sent event fragments', async () => {
+		const fragments: string[] = [];
+		const response = await provider.streamPrompt('Review this diff', config, fragment => fragments.push(fragment));
+
+		assert.deepStrictEqual(fragments, ['Looks ', 'good.']);
+		assert.strictEqual(response.text, 'Looks good.');
+		assert.deepStrictEqual(response.usage, { inputTokens: 12, outputTokens: 3 });
+	});
+
+	test('keeps the last event of a stream that does not end with a newline', async () => {
+		const fragments: string[] = [];
+		const response = await provider.streamPrompt('Unterminated', config, fragment => fragments.push(fragment));
+
+		assert.deepStrictEqual(fragments, ['Looks ', 'good.']);
+		assert.deepStrictEqual(response.usage, { inputTokens: 12, outputTokens: 3 });
+	});
+
+	test('aborts the request when the token is already cancelled', async () => {
+		const tokenSource = new vscode.CancellationTokenSource();
+		tokenSource.cancel();
+
+		await assert.rejects(provider.sendPrompt('Review this diff', config, tokenSource.token), /abort/i);
+		tokenSource.dispose();
+	});
+
+	test('lists models served by the endpoint', async () => {
+		const models = await provider.listModels(config);
+
+		assert.deepStrictEqual(models, ['stub-chat', 'stub-coder']);
+	});
+
+	test('reports missing base URL and model', () => {
+		const errors = provider.validateConfig({ ...config, openaiBaseUrl: '', openaiModel: '' });
+
+		assert.strictEqual(errors.length, 2);
+	});
+});
@@ -0,0 +1,89 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { findIndentationBlocks, findSmartContextBlocks } from '../smartContextService';
+
+suite('Smart Context Service Test Suite', () => {
+	test('finds functions with the brace on their own line', () => {
+		const content = [
+			'#include <stdio.h>',
+			'',
+			'static int count(const char *text)',
+			'{',
+			'	int total = 0;',
+			'	while (*text) {',
+			'		total++;',
+			'		text++;',
+			'	}',
+			'	return total;',
+			'}',
+			'',
+			'int main(void)',
+			'{',
+			'	return count("abc");',
+			'}',
+			''
+		].join('\n');
+
+		assert.deepStrictEqual(findIndentationBlocks(content), [
+			{ startLine: 2, endLine: 10 },
+			{ startLine: 12, endLine: 15 }
+		]);
+	});
+
+	test('finds indented blocks without closing brackets', () => {
+		const content = [
+			'class Greeter:',
+			'    def __init__(self, name):',
+			'        self.name = name',
+			'',
+			'    def greet(self):',
+			'        return f"Hello, {self.name}"',
+			'',
+			'greeter = Greeter("world")'
+		].join('\n');
+
+		assert.deepStrictEqual(findIndentationBlocks(content), [{ startLine: 0, endLine: 5 }]);
+	});
+
+	test('keeps the inner blocks of a block longer than the limit', () => {
+		const content = [
+			'export class Service {',
+			'	start() {',
+			'		this.running = true;',
+			'	}',
+			'',
+			'	stop() {',
+			'		this.running = false;',
+			'	}',
+			'}'
+		].join('\n');
+
+		assert.deepStrictEqual(findIndentationBlocks(content, 5), [
+			{ startLine: 1, endLine: 3 },
+			{ startLine: 5, endLine: 7 }
+		]);
+	});
+
+	test('opens no untitled documents for the contents of a diff', async () => {
+		const oldContent = 'function start() {\n\treturn 1;\n}\n';
+		const newContent = 'function start() {\n\treturn 2;\n}\n';
+		const repositoryPath = fs.mkdtempSync(path.join(os.tmpdir(), 'difflens-smart-context-'));
+		fs.writeFileSync(path.join(repositoryPath, 'start.txt'), newContent);
+
+		const opened: vscode.TextDocument[] = [];
+		const listener = vscode.workspace.onDidOpenTextDocument(document => opened.push(document));
+		try {
+			// The old side only exists in a commit and the new side is the file on disk
+			const blocks = await findSmartContextBlocks(vscode.Uri.file(repositoryPath), 'start.txt', oldContent, newContent);
+
+			assert.deepStrictEqual(blocks.oldBlocks, [{ startLine: 0, endLine: 2 }]);
+			assert.deepStrictEqual(opened.filter(document => document.isUntitled), []);
+		} finally {
+			listener.dispose();
+			fs.rmSync(repositoryPath, { recursive: true, force: true });
+		}
+	});
+});
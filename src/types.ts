@@ -11,12 +11,15 @@ export interface Repository {
 	state: RepositoryState;
 	getCommit(ref: string): Promise<Commit>;
 	log(options?: LogOptions): Promise<Commit[]>;
-	diff(cached?: boolean): Promise<Change[]>;
+	diff(cached?: boolean): Promise<string>;
 	diffWith(ref: string, path?: string): Promise<Change[]>;
 	diffBetween(ref1: string, ref2: string, path?: string): Promise<Change[]>;
+	getMergeBase(ref1: string, ref2: string): Promise<string | undefined>;
 	// Extended methods that might be available in VS Code Git API
 	show?(ref: string, path?: string): Promise<string>;
 	getObjectContent?(ref: string, path: string): Promise<string>;
+	// Blob of a file at a commit, or in the index for an empty ref
+	getObjectDetails?(treeish: string, path: string): Promise<{ mode: string; object: string; size: number }>;
 	// Internal methods that might be available
 	_model?: any;
 	_repository?: any;
@@ -24,8 +27,41 @@ export interface Repository {
 
 export interface RepositoryState {
 	HEAD: Branch | undefined;
+	indexChanges: Change[];
+	workingTreeChanges: Change[];
+	// Only present when untracked files are listed separately (git.untrackedChanges = separate)
+	untrackedChanges?: Change[];
 }
 
+// Information about the reviewed changes that is added to the review prompt
+export interface ReviewContext {
+	commits?: Commit[];
+	branchName?: string;
+	// Issue keys mentioned in the commit messages and branch name, e.g. "PROJ-123" or "#42"
+	issueKeys?: string[];
+}
+
+// A commit of a commit-by-commit review with its diff and prompt context, or the reason it is skipped
+export interface CommitReviewItem {
+	commit: Commit;
+	diff?: string;
+	skipReason?: string;
+	context: ReviewContext;
+}
+
+// Commits compared by a review: "base", "base..target" or "base...target" (merge base mode)
+export interface CommitRange {
+	// null compares the target with its parent commit
+	base: string | null;
+	target: string;
+	mergeBase: boolean;
+}
+
+// Comparison targets for uncommitted changes, used in place of a commit to compare against
+// A colon cannot appear in a ref name, so these never clash with a branch or tag
+export const STAGED_CHANGES_TARGET = ':staged';
+export const WORKING_TREE_CHANGES_TARGET = ':working-tree';
+
 export interface Branch {
 	name?: string;
 	commit?: string;
@@ -49,6 +85,8 @@ export interface Change {
 export interface LogOptions {
 	maxEntries?: number;
 	reverse?: boolean;
+	// Revision range such as "base..target"
+	range?: string;
 }
 
 export enum Status {
@@ -75,14 +113,29 @@ export interface ReviewConfig {
 	systemPrompt: string;
 	reviewPerspective: string;
 	contextLines: number;
+	smartContext: boolean;
 	excludeDeletes: boolean;
-	llmProvider: 'bedrock' | 'vscode-lm';
+	llmProvider: string;
 	awsAccessKey: string;
 	awsSecretKey: string;
 	awsRegion: string;
 	modelName: string;
 	vscodeLmVendor: string;
 	vscodeLmFamily: string;
+	openaiBaseUrl: string;
+	openaiApiKey: string;
+	openaiModel: string;
+	openaiTemperature: number;
+	ollamaBaseUrl: string;
+	ollamaModel: string;
+	anthropicApiKey: string;
+	anthropicModel: string;
+	anthropicMaxTokens: number;
+	chunkedReview: boolean;
+	chunkTokenBudget: number;
+	confirmTokenThreshold: number;
+	structuredOutput: boolean;
+	includeCommitContext: boolean;
 	fileExtensions: string;
 	maxFileSize: number;
 	fileSizeUnit: 'KB' | 'MB';
@@ -132,6 +185,26 @@ export interface ExclusionSummary {
 	};
 }
 
+// Smart context interfaces
+// Lines of a function, class or block that a hunk can be grown to (0-based, inclusive line numbers)
+export interface ContextBlock {
+	startLine: number;
+	endLine: number;
+}
+
+// Blocks of both sides of a file diff, in line numbers of the old and of the new content
+export interface SmartContextBlocks {
+	oldBlocks: ContextBlock[];
+	newBlocks: ContextBlock[];
+}
+
+// Abbreviated blob hashes of the two sides of a file diff, as shown on git diff's index line
+// A missing hash is computed from the content, which only matches git when the file is UTF-8
+export interface BlobHashes {
+	oldHash?: string;
+	newHash?: string;
+}
+
 // Export interfaces
 export interface ExportData {
 	exportInfo: {
@@ -145,11 +218,13 @@ export interface ExportData {
 		provider: string;
 		systemPrompt: string;
 		reviewPerspective: string;
+		// Milliseconds
 		reviewDuration: number;
 		tokenUsage?: {
 			input: number;
 			output: number;
 		};
+		stopReason?: string;
 	};
 	diffConfiguration: {
 		contextLines: number;
@@ -220,4 +295,74 @@ export interface ReviewResult {
 	review: string;
 	systemPrompt?: string;
 	reviewPerspective?: string;
+	// Wall-clock time of the LLM request(s) in milliseconds
+	durationMs?: number;
+	usage?: TokenUsage;
+	// Why the model stopped generating (e.g. end_turn, max_tokens, length)
+	stopReason?: string;
+	// Set in structured output mode
+	findings?: ReviewFinding[];
+}
+
+// Minimal patch proposed by the model for a finding's suggestion (1-based, inclusive line numbers)
+export interface SuggestedPatch {
+	startLine: number;
+	endLine: number;
+	originalText: string;
+	replacementText: string;
+}
+
+// Structured review findings
+export type FindingSeverity = 'critical' | 'major' | 'minor' | 'suggestion';
+
+export interface ReviewFinding {
+	file: string;
+	line: number;
+	severity: FindingSeverity;
+	category: string;
+	title: string;
+	description: string;
+	suggestion: string;
+}
+
+// LLM provider interfaces
+export interface TokenUsage {
+	inputTokens: number;
+	outputTokens: number;
+}
+
+export interface LLMResponse {
+	modelName: string;
+	text: string;
+	usage?: TokenUsage;
+	stopReason?: string;
+}
+
+// Prices in USD per million tokens
+export interface ModelPricing {
+	inputPerMillionTokens: number;
+	outputPerMillionTokens: number;
+}
+
+// Pre-flight estimate of a review request
+export interface ReviewEstimate {
+	inputTokens: number;
+	// Whether inputTokens came from the model's tokenizer rather than the heuristic
+	exact: boolean;
+	estimatedInputCost?: number;
+}
+
+export interface LLMProvider {
+	// Identifier stored in the diffLens.llmProvider setting
+	readonly id: string;
+	readonly displayName: string;
+	validateConfig(config: ReviewConfig): string[];
+	// The request is aborted when the token is cancelled
+	sendPrompt(prompt: string, config: ReviewConfig, token?: vscode.CancellationToken): Promise<LLMResponse>;
+	streamPrompt(prompt: string, config: ReviewConfig, onText: (fragment: string) => void, token?: vscode.CancellationToken): Promise<LLMResponse>;
+	listModels(config: ReviewConfig): Promise<string[]>;
+	// Count prompt tokens with the model's tokenizer; the heuristic estimate is used when absent
+	countTokens?(text: string, config: ReviewConfig, token?: vscode.CancellationToken): Promise<number>;
+	// Pricing of the configured model, when known
+	getPricing?(config: ReviewConfig): ModelPricing | undefined;
 }